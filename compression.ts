@@ -0,0 +1,597 @@
+/**
+ * Compression Utilities
+ *
+ * Gzip and raw DEFLATE compression for generated reports, and decompression
+ * for reading zipped documents and PDF streams. Uses the native
+ * CompressionStream and DecompressionStream APIs when the browser provides
+ * them and falls back to a bundled LZ77 + fixed-Huffman DEFLATE encoder and a
+ * full DEFLATE decoder otherwise.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+// Types and Interfaces
+export type CompressionFormat = 'gzip' | 'deflate-raw';
+
+type CompressionStreamConstructor = new (format: string) => TransformStream<Uint8Array, Uint8Array>;
+
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+// LZ77 parameters
+const WINDOW_SIZE = 32768;
+const WINDOW_MASK = WINDOW_SIZE - 1;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+
+// DEFLATE length and distance code tables (RFC 1951, section 3.2.5)
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+  35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+  3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+  7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13
+];
+
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const MAX_CODE_BITS = 15;
+
+let crcTable: Uint32Array | null = null;
+let fixedTables: { literals: HuffmanTable; distances: HuffmanTable } | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+/**
+ * Calculate the CRC-32 checksum of a byte array
+ */
+export const crc32 = (data: Uint8Array, previous = 0): number => {
+  const table = getCrcTable();
+  let crc = previous ^ 0xffffffff;
+
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Concatenate byte arrays into a single buffer
+ */
+export const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  return result;
+};
+
+/**
+ * LSB-first bit writer backed by a growable byte buffer
+ */
+const createBitWriter = (initialSize: number) => {
+  let buffer = new Uint8Array(Math.max(initialSize, 1024));
+  let length = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const ensureCapacity = () => {
+    if (length + 4 >= buffer.length) {
+      const next = new Uint8Array(buffer.length * 2);
+      next.set(buffer);
+      buffer = next;
+    }
+  };
+
+  const writeBits = (value: number, bits: number) => {
+    bitBuffer |= value << bitCount;
+    bitCount += bits;
+    while (bitCount >= 8) {
+      ensureCapacity();
+      buffer[length++] = bitBuffer & 0xff;
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  // Huffman codes are defined MSB-first, so they are reversed before writing
+  const writeCode = (code: number, bits: number) => {
+    let reversed = 0;
+    for (let i = 0; i < bits; i++) {
+      reversed = (reversed << 1) | ((code >>> i) & 1);
+    }
+    writeBits(reversed, bits);
+  };
+
+  const finish = (): Uint8Array => {
+    if (bitCount > 0) {
+      ensureCapacity();
+      buffer[length++] = bitBuffer & 0xff;
+      bitBuffer = 0;
+      bitCount = 0;
+    }
+    return buffer.slice(0, length);
+  };
+
+  return { writeBits, writeCode, finish };
+};
+
+/**
+ * Compress data as a single fixed-Huffman DEFLATE block (RFC 1951)
+ */
+export const deflateRawSync = (data: Uint8Array): Uint8Array => {
+  const writer = createBitWriter(data.length >>> 1);
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+
+  const writeLiteral = (value: number) => {
+    if (value < 144) {
+      writer.writeCode(0x30 + value, 8);
+    } else if (value < 256) {
+      writer.writeCode(0x190 + value - 144, 9);
+    } else if (value < 280) {
+      writer.writeCode(value - 256, 7);
+    } else {
+      writer.writeCode(0xc0 + value - 280, 8);
+    }
+  };
+
+  const writeMatch = (length: number, distance: number) => {
+    let lengthCode = LENGTH_BASE.length - 1;
+    while (LENGTH_BASE[lengthCode] > length) lengthCode--;
+    writeLiteral(257 + lengthCode);
+    writer.writeBits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+
+    let distanceCode = DISTANCE_BASE.length - 1;
+    while (DISTANCE_BASE[distanceCode] > distance) distanceCode--;
+    writer.writeCode(distanceCode, 5);
+    writer.writeBits(distance - DISTANCE_BASE[distanceCode], DISTANCE_EXTRA[distanceCode]);
+  };
+
+  const hashAt = (pos: number): number => {
+    return ((data[pos] << 10) ^ (data[pos + 1] << 5) ^ data[pos + 2]) & (HASH_SIZE - 1);
+  };
+
+  const insert = (pos: number) => {
+    if (pos + MIN_MATCH > data.length) return;
+    const hash = hashAt(pos);
+    prev[pos & WINDOW_MASK] = head[hash];
+    head[hash] = pos;
+  };
+
+  // BFINAL = 1, BTYPE = 01 (fixed Huffman codes)
+  writer.writeBits(1, 1);
+  writer.writeBits(1, 2);
+
+  let pos = 0;
+  while (pos < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (pos + MIN_MATCH <= data.length) {
+      let candidate = head[hashAt(pos)];
+      let chain = MAX_CHAIN;
+      const maxLength = Math.min(MAX_MATCH, data.length - pos);
+
+      while (candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain-- > 0) {
+        if (data[candidate + bestLength] === data[pos + bestLength]) {
+          let length = 0;
+          while (length < maxLength && data[candidate + length] === data[pos + length]) {
+            length++;
+          }
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = pos - candidate;
+            if (length === maxLength) break;
+          }
+        }
+
+        const next = prev[candidate & WINDOW_MASK];
+        if (next >= candidate) break;
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(bestLength, bestDistance);
+      for (let i = 0; i < bestLength; i++) {
+        insert(pos + i);
+      }
+      pos += bestLength;
+    } else {
+      writeLiteral(data[pos]);
+      insert(pos);
+      pos++;
+    }
+  }
+
+  // End of block
+  writeLiteral(256);
+  return writer.finish();
+};
+
+/**
+ * Build a canonical Huffman decoding table from a list of code lengths
+ */
+const buildHuffmanTable = (lengths: ArrayLike<number>): HuffmanTable => {
+  const counts = new Uint16Array(MAX_CODE_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_CODE_BITS + 1);
+  for (let bits = 1; bits < MAX_CODE_BITS; bits++) {
+    offsets[bits + 1] = offsets[bits] + counts[bits];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+
+  return { counts, symbols };
+};
+
+const getFixedTables = () => {
+  if (!fixedTables) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedTables = {
+      literals: buildHuffmanTable(lengths),
+      distances: buildHuffmanTable(new Uint8Array(30).fill(5))
+    };
+  }
+  return fixedTables;
+};
+
+/**
+ * Decompress raw DEFLATE data (RFC 1951), supporting stored, fixed and
+ * dynamic Huffman blocks
+ */
+export const inflateRawSync = (data: Uint8Array): Uint8Array => {
+  let output = new Uint8Array(Math.max(data.length * 4, 1024));
+  let length = 0;
+  let position = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const ensureCapacity = (extra: number) => {
+    if (length + extra > output.length) {
+      const next = new Uint8Array(Math.max(output.length * 2, length + extra));
+      next.set(output.subarray(0, length));
+      output = next;
+    }
+  };
+
+  const readBits = (bits: number): number => {
+    while (bitCount < bits) {
+      if (position >= data.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      bitBuffer |= data[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << bits) - 1);
+    bitBuffer >>>= bits;
+    bitCount -= bits;
+    return value;
+  };
+
+  // Codes are read one bit at a time, MSB-first, as in zlib's reference "puff" decoder
+  const decodeSymbol = (table: HuffmanTable): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+
+    for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+      code |= readBits(1);
+      const count = table.counts[bits];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+
+    throw new Error('Invalid Huffman code in compressed data');
+  };
+
+  const readDynamicTables = () => {
+    const literalCount = readBits(5) + 257;
+    const distanceCount = readBits(5) + 1;
+    const codeLengthCount = readBits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]] = readBits(3);
+    }
+    const codeLengthTable = buildHuffmanTable(codeLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let index = 0;
+    while (index < lengths.length) {
+      const symbol = decodeSymbol(codeLengthTable);
+      if (symbol < 16) {
+        lengths[index++] = symbol;
+        continue;
+      }
+
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (index === 0) {
+          throw new Error('Invalid code lengths in compressed data');
+        }
+        value = lengths[index - 1];
+        repeat = 3 + readBits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + readBits(3);
+      } else {
+        repeat = 11 + readBits(7);
+      }
+
+      if (index + repeat > lengths.length) {
+        throw new Error('Invalid code lengths in compressed data');
+      }
+      lengths.fill(value, index, index + repeat);
+      index += repeat;
+    }
+
+    return {
+      literals: buildHuffmanTable(lengths.subarray(0, literalCount)),
+      distances: buildHuffmanTable(lengths.subarray(literalCount))
+    };
+  };
+
+  const inflateBlock = (literals: HuffmanTable, distances: HuffmanTable) => {
+    for (;;) {
+      const symbol = decodeSymbol(literals);
+
+      if (symbol < 256) {
+        ensureCapacity(1);
+        output[length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) {
+        return;
+      }
+
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) {
+        throw new Error('Invalid length code in compressed data');
+      }
+      const matchLength = LENGTH_BASE[lengthCode] + readBits(LENGTH_EXTRA[lengthCode]);
+
+      const distanceCode = decodeSymbol(distances);
+      if (distanceCode >= DISTANCE_BASE.length) {
+        throw new Error('Invalid distance code in compressed data');
+      }
+      const distance = DISTANCE_BASE[distanceCode] + readBits(DISTANCE_EXTRA[distanceCode]);
+      if (distance > length) {
+        throw new Error('Invalid distance in compressed data');
+      }
+
+      // Byte-by-byte copy, since a match may overlap its own output
+      ensureCapacity(matchLength);
+      for (let i = 0; i < matchLength; i++) {
+        output[length] = output[length - distance];
+        length++;
+      }
+    }
+  };
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = readBits(1) === 1;
+    const type = readBits(2);
+
+    if (type === 0) {
+      // Stored block: skip to the byte boundary, then copy LEN bytes
+      bitBuffer = 0;
+      bitCount = 0;
+      if (position + 4 > data.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      const blockLength = data[position] | (data[position + 1] << 8);
+      position += 4;
+      if (position + blockLength > data.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      ensureCapacity(blockLength);
+      output.set(data.subarray(position, position + blockLength), length);
+      length += blockLength;
+      position += blockLength;
+    } else if (type === 1) {
+      const { literals, distances } = getFixedTables();
+      inflateBlock(literals, distances);
+    } else if (type === 2) {
+      const { literals, distances } = readDynamicTables();
+      inflateBlock(literals, distances);
+    } else {
+      throw new Error('Invalid block type in compressed data');
+    }
+  }
+
+  return output.slice(0, length);
+};
+
+/**
+ * Decompress zlib-wrapped DEFLATE data (RFC 1950), as used by PDF FlateDecode
+ * streams. The trailing Adler-32 checksum is not verified.
+ */
+export const inflateSync = (data: Uint8Array): Uint8Array => {
+  if (data.length < 2 || (data[0] & 0x0f) !== 8 || ((data[0] << 8) | data[1]) % 31 !== 0) {
+    throw new Error('Invalid zlib header');
+  }
+  // FDICT: a preset dictionary identifier follows the header
+  return inflateRawSync(data.subarray(data[1] & 0x20 ? 6 : 2));
+};
+
+/**
+ * Decompress a single gzip member (RFC 1952)
+ */
+export const gunzipSync = (data: Uint8Array): Uint8Array => {
+  if (data[0] !== 0x1f || data[1] !== 0x8b || data[2] !== 8) {
+    throw new Error('Invalid gzip header');
+  }
+
+  const flags = data[3];
+  let offset = 10;
+
+  // FEXTRA, FNAME, FCOMMENT and FHCRC
+  if (flags & 0x04) {
+    offset += 2 + (data[offset] | (data[offset + 1] << 8));
+  }
+  if (flags & 0x08) {
+    while (data[offset++] !== 0 && offset < data.length);
+  }
+  if (flags & 0x10) {
+    while (data[offset++] !== 0 && offset < data.length);
+  }
+  if (flags & 0x02) {
+    offset += 2;
+  }
+
+  return inflateRawSync(data.subarray(offset));
+};
+
+/**
+ * Wrap raw DEFLATE output in a gzip member (RFC 1952)
+ */
+export const gzipSync = (data: Uint8Array): Uint8Array => {
+  const header = new Uint8Array([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff]);
+  const trailer = new DataView(new ArrayBuffer(8));
+  trailer.setUint32(0, crc32(data), true);
+  trailer.setUint32(4, data.length >>> 0, true);
+
+  return concatBytes([header, deflateRawSync(data), new Uint8Array(trailer.buffer)]);
+};
+
+/**
+ * Create a native CompressionStream or DecompressionStream for the requested
+ * format, or null when the browser lacks one
+ */
+const createNativeStream = (
+  name: 'CompressionStream' | 'DecompressionStream',
+  format: CompressionFormat
+): TransformStream<Uint8Array, Uint8Array> | null => {
+  const NativeStream = (globalThis as unknown as {
+    CompressionStream?: CompressionStreamConstructor;
+    DecompressionStream?: CompressionStreamConstructor;
+  })[name];
+  if (typeof NativeStream !== 'function') {
+    return null;
+  }
+
+  try {
+    return new NativeStream(format);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Pipe data through a native transform stream
+ */
+const pipeThroughStream = async (
+  stream: TransformStream<Uint8Array, Uint8Array>,
+  data: Uint8Array
+): Promise<Uint8Array> => {
+  const writer = stream.writable.getWriter();
+  const writing = writer.write(data).then(() => writer.close());
+  // Failures surface through the reader; avoid an unhandled rejection here
+  writing.catch(() => undefined);
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+
+  await writing;
+  return concatBytes(chunks);
+};
+
+/**
+ * Compress data using the native CompressionStream when available,
+ * falling back to the bundled DEFLATE encoder
+ */
+export const compressBytes = async (data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> => {
+  const stream = createNativeStream('CompressionStream', format);
+  if (stream) {
+    return pipeThroughStream(stream, data);
+  }
+
+  return format === 'gzip' ? gzipSync(data) : deflateRawSync(data);
+};
+
+/**
+ * Decompress data using the native DecompressionStream when available,
+ * falling back to the bundled DEFLATE decoder
+ */
+export const decompressBytes = async (data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> => {
+  const stream = createNativeStream('DecompressionStream', format);
+  if (stream) {
+    return pipeThroughStream(stream, data);
+  }
+
+  return format === 'gzip' ? gunzipSync(data) : inflateRawSync(data);
+};
+
+/**
+ * Create a gzip transform stream. Without native CompressionStream support,
+ * every chunk becomes its own gzip member; concatenated members form a valid
+ * gzip file (RFC 1952, section 2.2).
+ */
+export const createGzipStream = (): TransformStream<Uint8Array, Uint8Array> => {
+  return createNativeStream('CompressionStream', 'gzip') || new TransformStream<Uint8Array, Uint8Array>({
+    transform: (chunk, controller) => {
+      if (chunk.length > 0) {
+        controller.enqueue(gzipSync(chunk));
+      }
+    }
+  });
+};
@@ -0,0 +1,651 @@
+/**
+ * Content Parsers
+ *
+ * Turns the text of processed files into structured data: RFC 4180 CSV with
+ * delimiter detection, JSON, newline-delimited JSON and Markdown front-matter
+ * plus heading outlines. Problems are reported with line and column instead
+ * of failing the whole file.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { getFileExtension, normalizeMimeType } from './fileTypeDetection';
+
+// Types and Interfaces
+export type ParseFormat = 'csv' | 'json' | 'ndjson' | 'markdown';
+
+export interface ContentParseError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface CSVParseOptions {
+  delimiter?: string;
+  header?: boolean;
+}
+
+export interface ContentParseOptions {
+  formats?: ParseFormat[];
+  csv?: CSVParseOptions;
+}
+
+export interface ParsedCSV {
+  type: 'csv';
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+  records: Record<string, string>[];
+  errors: ContentParseError[];
+}
+
+export interface ParsedJSON {
+  type: 'json';
+  value: unknown;
+  errors: ContentParseError[];
+}
+
+export interface ParsedNDJSON {
+  type: 'ndjson';
+  values: unknown[];
+  errors: ContentParseError[];
+}
+
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+  id: string;
+  line: number;
+}
+
+export interface ParsedMarkdown {
+  type: 'markdown';
+  frontMatter: Record<string, unknown> | null;
+  outline: MarkdownHeading[];
+  body: string;
+  errors: ContentParseError[];
+}
+
+export type ParsedContent = ParsedCSV | ParsedJSON | ParsedNDJSON | ParsedMarkdown;
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+// Lines inspected when guessing the CSV delimiter
+const DELIMITER_SAMPLE_LINES = 20;
+
+const FORMATS_BY_EXTENSION: Record<string, ParseFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'csv',
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.md': 'markdown',
+  '.markdown': 'markdown'
+};
+
+const FORMATS_BY_MIME_TYPE: Record<string, ParseFormat> = {
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+  'application/json': 'json',
+  'application/x-ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'text/markdown': 'markdown'
+};
+
+/**
+ * Create a function that converts character offsets in a text into 1-based
+ * lines and columns. Line starts are indexed on first use.
+ */
+const createLocator = (text: string) => {
+  let lineStarts: number[] | null = null;
+
+  return (offset: number): { line: number; column: number } => {
+    if (!lineStarts) {
+      lineStarts = [0];
+      for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+        lineStarts.push(i + 1);
+      }
+    }
+
+    // Binary search for the last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+};
+
+/**
+ * Pick the parser for a file from its extension, then its MIME type
+ */
+export const getParseFormat = (fileName: string, mimeType: string): ParseFormat | undefined => {
+  return FORMATS_BY_EXTENSION[getFileExtension(fileName)] || FORMATS_BY_MIME_TYPE[normalizeMimeType(mimeType)];
+};
+
+/**
+ * Guess the CSV delimiter: the candidate that appears the same, non-zero
+ * number of times on the most sample lines. Quoted sections are ignored.
+ */
+export const detectDelimiter = (text: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length && lines.length < DELIMITER_SAMPLE_LINES; i++) {
+    const char = text[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === '\n' && !quoted) {
+      if (current.trim()) lines.push(current);
+      current = '';
+    } else if (!quoted) {
+      current += char;
+    }
+  }
+  if (current.trim() && lines.length < DELIMITER_SAMPLE_LINES) {
+    lines.push(current);
+  }
+
+  let best = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    const frequency = new Map<number, number>();
+    counts.forEach(count => {
+      if (count > 0) frequency.set(count, (frequency.get(count) || 0) + 1);
+    });
+
+    // Lines agreeing on the most common count, weighted slightly by the count itself
+    frequency.forEach((lineCount, count) => {
+      const score = lineCount + count / 1000;
+      if (score > bestScore) {
+        bestScore = score;
+        best = delimiter;
+      }
+    });
+  });
+
+  return best;
+};
+
+/**
+ * Parse CSV text following RFC 4180, accepting LF as well as CRLF line breaks.
+ * With a header row, each record maps header names to field values.
+ */
+export const parseCSV = (text: string, options: CSVParseOptions = {}): ParsedCSV => {
+  const delimiter = options.delimiter || detectDelimiter(text);
+  const locate = createLocator(text);
+  const errors: ContentParseError[] = [];
+  const rows: string[][] = [];
+  const rowLines: number[] = [];
+
+  let row: string[] = [];
+  let field = '';
+  let fieldStarted = false;
+  let rowStart = 0;
+  let i = 0;
+
+  const error = (message: string, offset: number) => {
+    errors.push({ message, ...locate(offset) });
+  };
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    // Blank lines separate nothing and are skipped
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+      rowLines.push(rowStart);
+    }
+    row = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' && !fieldStarted) {
+      // Quoted field: runs to the next quote not followed by another quote
+      const open = i++;
+      let closed = false;
+      while (i < text.length) {
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i += 2;
+            continue;
+          }
+          closed = true;
+          i++;
+          break;
+        }
+        field += text[i++];
+      }
+      fieldStarted = true;
+
+      if (!closed) {
+        error('Unterminated quoted field', open);
+        break;
+      }
+      if (i < text.length && text[i] !== delimiter && text[i] !== '\n' && text[i] !== '\r') {
+        error('Unexpected character after closing quote', i);
+      }
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+      i++;
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      rowStart = i;
+    } else {
+      if (char === '"') {
+        error('Unexpected quote in unquoted field', i);
+      }
+      field += char;
+      fieldStarted = true;
+      i++;
+    }
+  }
+
+  if (fieldStarted || row.length > 0) {
+    endRow();
+  }
+
+  const hasHeader = options.header !== false;
+  const width = hasHeader && rows.length > 0 ? rows[0].length : rows.reduce((max, fields) => Math.max(max, fields.length), 0);
+
+  // Duplicate or empty header names would collapse record keys
+  const headers: string[] = [];
+  const source = hasHeader && rows.length > 0 ? rows[0] : Array.from({ length: width }, (_, index) => `column${index + 1}`);
+  source.forEach((name, index) => {
+    let key = name || `column${index + 1}`;
+    for (let suffix = 2; headers.includes(key); suffix++) {
+      key = `${name || `column${index + 1}`}_${suffix}`;
+    }
+    headers.push(key);
+  });
+
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const dataLines = hasHeader ? rowLines.slice(1) : rowLines;
+
+  const records = dataRows.map((fields, index) => {
+    if (fields.length !== headers.length) {
+      error(`Expected ${headers.length} fields but found ${fields.length}`, dataLines[index]);
+    }
+
+    const record: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      record[header] = fields[column] ?? '';
+    });
+    return record;
+  });
+
+  errors.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return { type: 'csv', delimiter, headers, rows: dataRows, records, errors };
+};
+
+/**
+ * Find where JSON text stops being valid. JSON.parse error messages differ
+ * between engines and not all of them include a position, so the text is
+ * rescanned to report one. Returns null when the text is valid.
+ */
+const findJSONError = (text: string): { message: string; offset: number } | null => {
+  let i = 0;
+  let failure: { message: string; offset: number } | null = null;
+
+  const fail = (message: string): never => {
+    failure = { message, offset: i };
+    throw new Error(message);
+  };
+
+  const skipWhitespace = () => {
+    while (i < text.length && ' \t\n\r'.includes(text[i])) i++;
+  };
+
+  const expectLiteral = (literal: string) => {
+    if (text.startsWith(literal, i)) {
+      i += literal.length;
+    } else {
+      fail(`Unexpected token '${text[i]}'`);
+    }
+  };
+
+  const parseString = () => {
+    i++;
+    while (i < text.length) {
+      const char = text[i];
+      if (char === '"') {
+        i++;
+        return;
+      }
+      if (char === '\\') {
+        const next = text[i + 1];
+        if (next === 'u') {
+          if (!/^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6))) fail('Invalid unicode escape');
+          i += 6;
+        } else if (next !== undefined && '"\\/bfnrt'.includes(next)) {
+          i += 2;
+        } else {
+          fail('Invalid escape sequence');
+        }
+      } else if (char < ' ') {
+        fail('Unescaped control character in string');
+      } else {
+        i++;
+      }
+    }
+    fail('Unterminated string');
+  };
+
+  const parseNumber = () => {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(text.slice(i, i + 400));
+    if (!match) fail('Invalid number');
+    i += match![0].length;
+  };
+
+  const parseValue = (): void => {
+    skipWhitespace();
+    const char = text[i];
+
+    if (char === '{') {
+      i++;
+      skipWhitespace();
+      if (text[i] === '}') {
+        i++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[i] !== '"') fail('Expected property name');
+        parseString();
+        skipWhitespace();
+        if (text[i] !== ':') fail("Expected ':' after property name");
+        i++;
+        parseValue();
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+        } else if (text[i] === '}') {
+          i++;
+          return;
+        } else {
+          fail("Expected ',' or '}'");
+        }
+      }
+    }
+
+    if (char === '[') {
+      i++;
+      skipWhitespace();
+      if (text[i] === ']') {
+        i++;
+        return;
+      }
+      for (;;) {
+        parseValue();
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+        } else if (text[i] === ']') {
+          i++;
+          return;
+        } else {
+          fail("Expected ',' or ']'");
+        }
+      }
+    }
+
+    if (char === '"') return parseString();
+    if (char === 't') return expectLiteral('true');
+    if (char === 'f') return expectLiteral('false');
+    if (char === 'n') return expectLiteral('null');
+    if (char === '-' || (char >= '0' && char <= '9')) return parseNumber();
+
+    fail(char === undefined ? 'Unexpected end of input' : `Unexpected token '${char}'`);
+  };
+
+  try {
+    parseValue();
+    skipWhitespace();
+    if (i < text.length) fail(`Unexpected token '${text[i]}' after JSON value`);
+    return null;
+  } catch {
+    return failure;
+  }
+};
+
+/**
+ * Parse JSON text, reporting the location of syntax errors
+ */
+export const parseJSON = (text: string): ParsedJSON => {
+  try {
+    return { type: 'json', value: JSON.parse(text), errors: [] };
+  } catch (parseError) {
+    const found = findJSONError(text);
+    const offset = found ? found.offset : 0;
+    const message = found ? found.message : parseError instanceof Error ? parseError.message : 'Invalid JSON';
+    return { type: 'json', value: undefined, errors: [{ message, ...createLocator(text)(offset) }] };
+  }
+};
+
+/**
+ * Parse newline-delimited JSON. Blank lines are skipped; invalid lines are
+ * reported and left out of `values`.
+ */
+export const parseNDJSON = (text: string): ParsedNDJSON => {
+  const values: unknown[] = [];
+  const errors: ContentParseError[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.trim()) return;
+
+    const result = parseJSON(line);
+    if (result.errors.length > 0) {
+      errors.push({ ...result.errors[0], line: index + 1 });
+    } else {
+      values.push(result.value);
+    }
+  });
+
+  return { type: 'ndjson', values, errors };
+};
+
+/**
+ * Convert a scalar YAML value: quoted strings, numbers, booleans and null
+ */
+const parseYAMLScalar = (value: string): unknown => {
+  const trimmed = value.trim();
+
+  if (/^".*"$/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(trimmed)) return trimmed.slice(1, -1).replace(/''/g, "'");
+  if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === 'true';
+  if (/^(null|~)?$/i.test(trimmed)) return null;
+  if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(trimmed)) return Number(trimmed);
+
+  // Flow sequences such as [a, b, c]
+  if (/^\[.*\]$/.test(trimmed)) {
+    const inner = trimmed.slice(1, -1).trim();
+    return inner ? inner.split(',').map(item => parseYAMLScalar(item)) : [];
+  }
+
+  return trimmed.replace(/\s+#.*$/, '');
+};
+
+/**
+ * Parse the flat YAML used in front-matter: `key: value` pairs and block
+ * lists of scalars. Nested mappings are kept as raw text.
+ */
+const parseFrontMatter = (lines: string[], firstLine: number, errors: ContentParseError[]): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  let listKey: string | null = null;
+  let nestedKey: string | null = null;
+
+  lines.forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (result[listKey] as unknown[]).push(parseYAMLScalar(item[1]));
+      return;
+    }
+
+    if (/^\s/.test(line) && nestedKey) {
+      result[nestedKey] = `${result[nestedKey] ? `${result[nestedKey]}\n` : ''}${line.trim()}`;
+      return;
+    }
+
+    const pair = /^([^:#\s][^:]*):(?:\s+(.*))?$/.exec(line);
+    if (!pair) {
+      errors.push({ message: 'Expected "key: value" in front-matter', line: firstLine + index, column: 1 });
+      return;
+    }
+
+    const key = pair[1].trim();
+    const value = pair[2];
+    listKey = null;
+    nestedKey = null;
+
+    if (value === undefined || !value.trim()) {
+      // Either a block list or a nested mapping follows
+      const next = lines[index + 1] || '';
+      if (/^\s*-\s/.test(next)) {
+        result[key] = [];
+        listKey = key;
+      } else {
+        result[key] = null;
+        nestedKey = key;
+      }
+    } else {
+      result[key] = parseYAMLScalar(value);
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Turn heading text into a URL fragment, as most Markdown renderers do
+ */
+const slugify = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-');
+};
+
+/**
+ * Parse Markdown front-matter and build an outline of ATX (`#`) and setext
+ * (underlined) headings, ignoring fenced code blocks
+ */
+export const parseMarkdown = (text: string): ParsedMarkdown => {
+  const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+  const errors: ContentParseError[] = [];
+  let frontMatter: Record<string, unknown> | null = null;
+  let bodyStart = 0;
+
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    const altEnd = lines.indexOf('...', 1);
+    const close = end === -1 ? altEnd : altEnd === -1 ? end : Math.min(end, altEnd);
+
+    if (close === -1) {
+      errors.push({ message: 'Unterminated front-matter block', line: 1, column: 1 });
+    } else {
+      frontMatter = parseFrontMatter(lines.slice(1, close), 2, errors);
+      bodyStart = close + 1;
+    }
+  }
+
+  const outline: MarkdownHeading[] = [];
+  const usedIds = new Map<string, number>();
+  let fence: string | null = null;
+
+  const addHeading = (level: number, rawText: string, line: number) => {
+    const text = rawText.trim();
+    if (!text) return;
+
+    // Repeated headings get numbered ids: "intro", "intro-1", ...
+    const base = slugify(text) || 'section';
+    const seen = usedIds.get(base) || 0;
+    usedIds.set(base, seen + 1);
+    outline.push({ level, text, id: seen ? `${base}-${seen}` : base, line });
+  };
+
+  for (let index = bodyStart; index < lines.length; index++) {
+    const line = lines[index];
+    const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const atx = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/.exec(line);
+    if (atx) {
+      addHeading(atx[1].length, atx[2] || '', index + 1);
+      continue;
+    }
+
+    const underline = lines[index + 1];
+    if (line.trim() && underline !== undefined && /^ {0,3}(=+|-+)\s*$/.test(underline) && !/^\s*([-*+]\s|\d+[.)]\s|>)/.test(line)) {
+      addHeading(underline.trim()[0] === '=' ? 1 : 2, line, index + 1);
+      index++;
+    }
+  }
+
+  return {
+    type: 'markdown',
+    frontMatter,
+    outline,
+    body: lines.slice(bodyStart).join('\n'),
+    errors
+  };
+};
+
+/**
+ * Parse text in the given format
+ */
+export const parseContent = (text: string, format: ParseFormat, options: ContentParseOptions = {}): ParsedContent => {
+  switch (format) {
+    case 'csv':
+      return parseCSV(text, options.csv);
+    case 'json':
+      return parseJSON(text);
+    case 'ndjson':
+      return parseNDJSON(text);
+    case 'markdown':
+      return parseMarkdown(text);
+  }
+};
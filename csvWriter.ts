@@ -0,0 +1,243 @@
+/**
+ * CSV Writer
+ *
+ * Writes report rows as CSV in a configurable dialect: delimiter, quoting,
+ * line endings, byte order mark, header row and the text used for missing
+ * values. Text cells that spreadsheet applications would evaluate as formulas
+ * are neutralized by default, and nested objects can be flattened into
+ * dotted columns.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { formatColumnValue, formatPlainValue, ReportColumns, resolveColumns, ResolvedColumn } from './reportColumns';
+import {
+  AGGREGATE_FUNCTION_NAMES,
+  AggregateResult,
+  aggregateRows,
+  formatGroupValue,
+  groupReportData,
+  ReportGroup,
+  ReportGrouping
+} from './reportGrouping';
+import type { ReportRowWriter } from './reportStream';
+import type { CSVReportOptions, ReportData } from './useReportGenerator';
+
+// Types and Interfaces
+export interface CSVDocumentOptions {
+  columns?: ReportColumns;
+  locale?: string | string[];
+  grouping?: ReportGrouping;
+  csv?: CSVReportOptions;
+}
+
+interface CSVTable {
+  header: string[];
+  rows: string[][];
+}
+
+// Leading characters that make spreadsheet applications evaluate a cell
+const FORMULA_TRIGGERS = ['=', '+', '-', '@', '\t', '\r'];
+
+// Signed numbers such as "-3" start with a trigger but cannot carry a formula
+const PLAIN_NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i;
+
+const BYTE_ORDER_MARK = '\ufeff';
+
+const isRecord = (value: any): value is ReportData => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+};
+
+/**
+ * Prefix text that would start a formula with a single quote so it is shown as text
+ */
+export const sanitizeFormula = (text: string): string => {
+  return FORMULA_TRIGGERS.some(trigger => text.startsWith(trigger)) && !PLAIN_NUMBER.test(text) ? `'${text}` : text;
+};
+
+/**
+ * Collect the dotted paths of every leaf value, in order of first appearance
+ */
+const flattenKeys = (rows: ReportData[]): string[] => {
+  const keys = new Set<string>();
+
+  const visit = (record: ReportData, prefix: string, ancestors: Set<object>) => {
+    Object.entries(record).forEach(([key, value]) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (isRecord(value) && Object.keys(value).length > 0 && !ancestors.has(value)) {
+        visit(value, path, new Set(ancestors).add(value));
+      } else {
+        keys.add(path);
+      }
+    });
+  };
+
+  rows.filter(isRecord).forEach(row => visit(row, '', new Set([row])));
+  return Array.from(keys);
+};
+
+/**
+ * Lay out grouped records. A leading column holds each row's group path;
+ * after every group come its summary rows, one per aggregate function, with
+ * values under their field's column. Aggregates over fields that are not
+ * columns get trailing columns of their own.
+ */
+const groupedTable = (
+  data: ReportData[],
+  grouping: ReportGrouping,
+  columns: ResolvedColumn[],
+  valueCell: (column: ResolvedColumn, row: ReportData) => string,
+  textCell: (text: string) => string
+): CSVTable => {
+  const grouped = groupReportData(data, grouping, columns);
+  const labels = aggregateRows([], grouped.aggregates, columns).map(result => result.label);
+  const extraLabels: string[] = [];
+  const slots = grouped.aggregates.map((aggregate, index) => {
+    const columnIndex = columns.findIndex(column => column.key === aggregate.field);
+    if (columnIndex >= 0) {
+      return columnIndex + 1;
+    }
+    extraLabels.push(labels[index]);
+    return columns.length + extraLabels.length;
+  });
+  const width = columns.length + extraLabels.length + 1;
+  const pad = (row: string[]) => [...row, ...new Array(width - row.length).fill('')];
+
+  // Aggregates are written like the detail cells of their column, so parsers
+  // see raw numbers unless the column declares a type. Counts are always raw.
+  const aggregateCell = (result: AggregateResult): string => {
+    const column = columns.find(item => item.key === result.field);
+    return column?.formatValue && result.value !== null && result.fn !== 'count' && result.fn !== 'distinct'
+      ? column.formatValue(result.value)
+      : formatPlainValue(result.value);
+  };
+
+  // Aggregates are numbers or dates, so they are written without sanitizing
+  const summaryRows = (label: string, results: AggregateResult[]): string[][] => {
+    const functions = Array.from(new Set(results.map(result => result.fn)));
+    return functions.map(fn => {
+      const row = pad([textCell(functions.length > 1 ? `${label} (${AGGREGATE_FUNCTION_NAMES[fn]})` : label)]);
+      results.forEach((result, index) => {
+        if (result.fn === fn) {
+          row[slots[index]] = aggregateCell(result);
+        }
+      });
+      return row;
+    });
+  };
+
+  const rows: string[][] = [];
+
+  const addGroups = (groups: ReportGroup[], path: string[]) => {
+    groups.forEach(group => {
+      const groupPath = [...path, formatGroupValue(group, columns)];
+      const pathLabel = groupPath.join(' / ');
+      if (group.groups.length > 0) {
+        addGroups(group.groups, groupPath);
+      } else {
+        group.rows.forEach(item => {
+          rows.push(pad([textCell(pathLabel), ...columns.map(column => valueCell(column, item))]));
+        });
+      }
+      rows.push(...summaryRows(`Subtotal ${pathLabel}`, group.summary));
+    });
+  };
+
+  addGroups(grouped.groups, []);
+  rows.push(...summaryRows('Total', grouped.total));
+
+  return {
+    header: ['Group', ...columns.map(column => column.label), ...extraLabels].map(textCell),
+    rows
+  };
+};
+
+/**
+ * Resolve the dialect and columns into functions that turn rows into CSV lines
+ */
+const createCSVEncoder = (data: ReportData[], options: CSVDocumentOptions) => {
+  const dialect = options.csv || {};
+  const delimiter = dialect.delimiter ?? ',';
+  const nullValue = dialect.nullValue ?? '';
+  const sanitize = dialect.sanitizeFormulas !== false;
+
+  if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    throw new Error(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`);
+  }
+
+  const schema = options.columns?.length ? options.columns : dialect.flatten ? flattenKeys(data) : undefined;
+  const columns = resolveColumns(data, schema, options.locale);
+
+  // Labels and text from the data may be attacker-controlled; numbers, dates and booleans are not
+  const textCell = (text: string): string => (sanitize ? sanitizeFormula(text) : text);
+  const valueCell = (column: ResolvedColumn, row: ReportData): string => {
+    const value = column.getValue(row);
+    if (value === null || value === undefined) {
+      return nullValue;
+    }
+
+    const text = formatColumnValue(column, value, row);
+    return typeof value === 'string' || (typeof value === 'object' && !(value instanceof Date)) ? textCell(text) : text;
+  };
+
+  const quoteField = (field: string): string => {
+    const needsQuotes = dialect.quote === 'all'
+      || field.includes(delimiter)
+      || field.includes('"')
+      || field.includes('\n')
+      || field.includes('\r');
+    return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+  };
+
+  return {
+    columns,
+    textCell,
+    valueCell,
+    header: dialect.header !== false,
+    lineEnding: dialect.lineEnding ?? '\n',
+    prefix: dialect.bom ? BYTE_ORDER_MARK : '',
+    line: (cells: string[]): string => cells.map(quoteField).join(delimiter)
+  };
+};
+
+/**
+ * Render report rows as CSV text in the requested dialect
+ */
+export const generateCSVDocument = (data: ReportData[], options: CSVDocumentOptions = {}): string => {
+  if (!Array.isArray(data) || (data.length === 0 && !options.columns?.length)) {
+    return '';
+  }
+
+  const encoder = createCSVEncoder(data, options);
+  const { columns, textCell, valueCell } = encoder;
+
+  const table: CSVTable = options.grouping
+    ? groupedTable(data, options.grouping, columns, valueCell, textCell)
+    : {
+      header: columns.map(column => textCell(column.label)),
+      rows: data.map(item => columns.map(column => valueCell(column, item)))
+    };
+
+  const lines = (encoder.header ? [table.header, ...table.rows] : table.rows).map(encoder.line);
+
+  return encoder.prefix + lines.join(encoder.lineEnding);
+};
+
+/**
+ * Write CSV one row at a time for streamed reports. Without a column schema,
+ * the columns come from the sample rows.
+ */
+export const createCSVRowWriter = (sample: ReportData[], options: CSVDocumentOptions = {}): ReportRowWriter => {
+  const encoder = createCSVEncoder(sample, options);
+  const { columns, lineEnding } = encoder;
+  const header = encoder.header && columns.length > 0
+    ? encoder.line(columns.map(column => encoder.textCell(column.label))) + lineEnding
+    : '';
+
+  return {
+    start: encoder.prefix + header,
+    row: row => encoder.line(columns.map(column => encoder.valueCell(column, row))) + lineEnding,
+    end: ''
+  };
+};
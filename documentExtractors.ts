@@ -0,0 +1,206 @@
+/**
+ * Document Text Extractors
+ *
+ * Pluggable extractors that turn binary documents into plain text plus
+ * document metadata. The file processor picks an extractor by the file's
+ * detected MIME type; files without a matching extractor are read as text.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { matchesMimeType } from './fileTypeDetection';
+import { extractPDFText } from './pdfReader';
+import { listZipEntries, readZipEntry } from './zip';
+
+// Types and Interfaces
+export interface DocumentMetadata {
+  pageCount?: number;
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  lastModifiedBy?: string;
+  application?: string;
+  createdAt?: Date;
+  modifiedAt?: Date;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  metadata: DocumentMetadata;
+}
+
+export interface ExtractionContext {
+  fileName: string;
+  mimeType: string;
+  signal?: AbortSignal;
+}
+
+export interface DocumentExtractor {
+  name: string;
+  mimeTypes: string[];
+  extract: (data: Uint8Array, context: ExtractionContext) => Promise<ExtractedDocument>;
+}
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+// Runs of text, tabs, breaks and paragraph ends in WordprocessingML body XML
+const WORD_CONTENT_PATTERN = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr|noBreakHyphen)(?:\s[^>]*)?\/>|<\/w:p>|<w:p(?:\s[^>]*)?\/>/g;
+
+// Innermost mc:Fallback elements. Word saves text boxes and shapes twice, as
+// mc:Choice and as a legacy mc:Fallback, so only the choice is kept.
+const MARKUP_FALLBACK_PATTERN = /<mc:Fallback(?:\s[^>]*)?\/>|<mc:Fallback(?:\s[^>]*)?>(?:(?!<mc:Fallback[\s>/])[\s\S])*?<\/mc:Fallback>/g;
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+const decodeXMLText = (text: string): string => {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10));
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+};
+
+/**
+ * Read the text content of the first element with the given tag name
+ */
+const readXMLElement = (xml: string, tagName: string): string | undefined => {
+  const match = new RegExp(`<${tagName}(?:\\s[^>]*)?>([^<]*)</${tagName}>`).exec(xml);
+  const text = match ? decodeXMLText(match[1]).trim() : '';
+  return text || undefined;
+};
+
+const parseDate = (value: string | undefined): Date | undefined => {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new Error('Operation was aborted');
+  }
+};
+
+/**
+ * Convert WordprocessingML body XML into plain text, one line per paragraph
+ */
+const wordXMLToText = (xml: string): string => {
+  let body = xml;
+  let previous: string;
+  do {
+    previous = body;
+    body = body.replace(MARKUP_FALLBACK_PATTERN, '');
+  } while (body !== previous);
+
+  let text = '';
+  let match: RegExpExecArray | null;
+  WORD_CONTENT_PATTERN.lastIndex = 0;
+
+  while ((match = WORD_CONTENT_PATTERN.exec(body)) !== null) {
+    if (match[1] !== undefined) {
+      text += decodeXMLText(match[1]);
+    } else if (match[2] === 'tab') {
+      text += '\t';
+    } else if (match[2] === 'noBreakHyphen') {
+      text += '-';
+    } else {
+      text += '\n';
+    }
+  }
+
+  return text.replace(/\n+$/, '');
+};
+
+/**
+ * Extracts paragraph text from word/document.xml and metadata from the
+ * core and extended document properties
+ */
+export const docxExtractor: DocumentExtractor = {
+  name: 'docx',
+  mimeTypes: [DOCX_TYPE],
+  extract: async (data, context) => {
+    const entries = listZipEntries(data);
+    const findEntry = (name: string) => entries.find(entry => entry.name === name);
+    const readText = async (name: string): Promise<string | undefined> => {
+      const entry = findEntry(name);
+      if (!entry) return undefined;
+      const bytes = await readZipEntry(data, entry);
+      throwIfAborted(context.signal);
+      return new TextDecoder().decode(bytes);
+    };
+
+    const documentXML = await readText('word/document.xml');
+    if (documentXML === undefined) {
+      throw new Error(`'${context.fileName}' is not a Word document: word/document.xml is missing`);
+    }
+
+    const core = await readText('docProps/core.xml') || '';
+    const app = await readText('docProps/app.xml') || '';
+    const pages = Number(readXMLElement(app, 'Pages'));
+
+    return {
+      text: wordXMLToText(documentXML),
+      metadata: {
+        // Word records the page count from its last layout pass
+        pageCount: pages > 0 ? pages : undefined,
+        title: readXMLElement(core, 'dc:title'),
+        author: readXMLElement(core, 'dc:creator'),
+        subject: readXMLElement(core, 'dc:subject'),
+        keywords: readXMLElement(core, 'cp:keywords'),
+        lastModifiedBy: readXMLElement(core, 'cp:lastModifiedBy'),
+        application: readXMLElement(app, 'Application'),
+        createdAt: parseDate(readXMLElement(core, 'dcterms:created')),
+        modifiedAt: parseDate(readXMLElement(core, 'dcterms:modified'))
+      }
+    };
+  }
+};
+
+/**
+ * Extracts text from page content streams and metadata from the document
+ * information dictionary
+ */
+export const pdfExtractor: DocumentExtractor = {
+  name: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extract: async (data) => {
+    const { text, pageCount, info } = extractPDFText(data);
+
+    return {
+      text,
+      metadata: {
+        pageCount,
+        title: info.title,
+        author: info.author,
+        subject: info.subject,
+        keywords: info.keywords,
+        application: info.creator || info.producer,
+        createdAt: info.createdAt,
+        modifiedAt: info.modifiedAt
+      }
+    };
+  }
+};
+
+export const DEFAULT_EXTRACTORS: DocumentExtractor[] = [docxExtractor, pdfExtractor];
+
+/**
+ * Find the first extractor that handles a MIME type
+ */
+export const findExtractor = (extractors: DocumentExtractor[], mimeType: string): DocumentExtractor | undefined => {
+  return extractors.find(extractor => extractor.mimeTypes.some(pattern => matchesMimeType(mimeType, pattern)));
+};
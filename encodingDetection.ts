@@ -0,0 +1,315 @@
+/**
+ * Character Encoding Detection
+ *
+ * Guesses the character encoding of text files that arrive without one:
+ * byte order marks first, then UTF-16 and UTF-8 structure, then a statistical
+ * comparison of how plausible the text looks when decoded with each common
+ * legacy encoding (Shift_JIS, EUC-JP, GB18030, Big5, EUC-KR, Windows-1251 and
+ * Windows-1252) and as UTF-16.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { readBlob } from './fileStreamReader';
+
+// Types and Interfaces
+export interface EncodingDetectionResult {
+  encoding: string;
+  confidence: number;
+  hasBOM: boolean;
+}
+
+interface TextStats {
+  nonAscii: number;
+  kana: number;
+  han: number;
+  hangul: number;
+  cjkPunctuation: number;
+  halfwidthKana: number;
+  cyrillic: number;
+  mixedCyrillic: number;
+  latin: number;
+  denseLatin: number;
+  commonSimplified: number;
+  commonTraditional: number;
+  commonHangul: number;
+}
+
+interface EncodingProfile {
+  encoding: string;
+  score: (stats: TextStats) => number;
+}
+
+// Bytes sampled from the start of a file
+const SAMPLE_SIZE = 64 * 1024;
+
+// Frequent characters that tell related scripts apart. Text mis-decoded with
+// the wrong CJK encoding yields valid but rare characters, so these barely occur.
+const COMMON_SIMPLIFIED = new Set('的一是不了在人有我他这个们中来上大为和国地到以说时要就出会也你对生能');
+const COMMON_TRADITIONAL = new Set('的一是不了在人有我他這個們中來上大為和國地到以說時要就出會也你對生能');
+const COMMON_HANGUL = new Set('이다는에의하고가을를지한서로도기사으있대리자아수나게어요습니');
+
+const BOMS: Array<[number[], string]> = [
+  [[0xef, 0xbb, 0xbf], 'utf-8'],
+  [[0xff, 0xfe], 'utf-16le'],
+  [[0xfe, 0xff], 'utf-16be']
+];
+
+/**
+ * Weigh a base score by how often a marker of the expected language shows up.
+ * `expected` is the ratio typical of genuine text.
+ */
+const weigh = (base: number, ratio: number, expected: number): number => {
+  return base * (0.6 + 0.4 * Math.min(1, ratio / expected));
+};
+
+const scoreJapanese = (s: TextStats): number => {
+  return weigh((s.kana + s.han + s.cjkPunctuation - s.halfwidthKana) / s.nonAscii, s.kana / Math.max(1, s.kana + s.han), 0.3);
+};
+
+const scoreSimplifiedChinese = (s: TextStats): number => {
+  return weigh((s.han + s.cjkPunctuation) / s.nonAscii, s.commonSimplified / Math.max(1, s.han), 0.1);
+};
+
+const scoreTraditionalChinese = (s: TextStats): number => {
+  return weigh((s.han + s.cjkPunctuation) / s.nonAscii, s.commonTraditional / Math.max(1, s.han), 0.1);
+};
+
+const scoreKorean = (s: TextStats): number => {
+  return weigh((s.hangul + s.cjkPunctuation) / s.nonAscii, s.commonHangul / Math.max(1, s.hangul), 0.1);
+};
+
+const scoreCyrillic = (s: TextStats): number => (s.cyrillic - s.mixedCyrillic) / s.nonAscii;
+
+// Accented letters are sprinkled through mostly-ASCII words in Latin scripts;
+// long runs of them point to a mis-decoded non-Latin text
+const scoreLatin = (s: TextStats): number => (s.latin - s.denseLatin) / s.nonAscii;
+
+// UTF-16 text without a BOM and without ASCII has no byte pattern to go on
+const scoreUTF16 = (s: TextStats): number => {
+  return Math.max(scoreJapanese(s), scoreSimplifiedChinese(s), scoreTraditionalChinese(s), scoreKorean(s), scoreCyrillic(s));
+};
+
+const PROFILES: EncodingProfile[] = [
+  { encoding: 'shift_jis', score: scoreJapanese },
+  { encoding: 'euc-jp', score: scoreJapanese },
+  { encoding: 'gb18030', score: scoreSimplifiedChinese },
+  { encoding: 'big5', score: scoreTraditionalChinese },
+  { encoding: 'euc-kr', score: scoreKorean },
+  { encoding: 'windows-1251', score: scoreCyrillic },
+  { encoding: 'windows-1252', score: scoreLatin },
+  { encoding: 'utf-16le', score: scoreUTF16 },
+  { encoding: 'utf-16be', score: scoreUTF16 }
+];
+
+const isAsciiLetter = (char: string | undefined): boolean => !!char && /[A-Za-z]/.test(char);
+
+const isLatinLetter = (code: number): boolean => {
+  return (code >= 0xc0 && code <= 0x24f && code !== 0xd7 && code !== 0xf7) || code === 0x152 || code === 0x153;
+};
+
+/**
+ * Classify the non-ASCII characters of decoded text
+ */
+const collectStats = (text: string): TextStats => {
+  const stats: TextStats = {
+    nonAscii: 0, kana: 0, han: 0, hangul: 0, cjkPunctuation: 0, halfwidthKana: 0,
+    cyrillic: 0, mixedCyrillic: 0, latin: 0, denseLatin: 0,
+    commonSimplified: 0, commonTraditional: 0, commonHangul: 0
+  };
+
+  const chars = Array.from(text);
+  chars.forEach((char, index) => {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) return;
+
+    stats.nonAscii++;
+
+    if (code >= 0x3040 && code <= 0x30ff) {
+      stats.kana++;
+    } else if (code >= 0x4e00 && code <= 0x9fff) {
+      stats.han++;
+      if (COMMON_SIMPLIFIED.has(char)) stats.commonSimplified++;
+      if (COMMON_TRADITIONAL.has(char)) stats.commonTraditional++;
+    } else if (code >= 0xac00 && code <= 0xd7a3) {
+      stats.hangul++;
+      if (COMMON_HANGUL.has(char)) stats.commonHangul++;
+    } else if ((code >= 0x3000 && code <= 0x303f) || (code >= 0xff01 && code <= 0xff5e)) {
+      stats.cjkPunctuation++;
+    } else if (code >= 0xff61 && code <= 0xff9f) {
+      stats.halfwidthKana++;
+    } else if (code >= 0x400 && code <= 0x4ff) {
+      stats.cyrillic++;
+      if (isAsciiLetter(chars[index - 1]) || isAsciiLetter(chars[index + 1])) stats.mixedCyrillic++;
+    } else if (isLatinLetter(code)) {
+      stats.latin++;
+      const previous = chars[index - 1]?.codePointAt(0) || 0;
+      const next = chars[index + 1]?.codePointAt(0) || 0;
+      if (isLatinLetter(previous) && isLatinLetter(next)) stats.denseLatin++;
+    } else if ((code >= 0xa0 && code <= 0xbf) || (code >= 0x2010 && code <= 0x203a) || code === 0x20ac || code === 0x2122) {
+      // Punctuation and symbols common in Latin-script text
+      stats.latin++;
+    }
+  });
+
+  return stats;
+};
+
+/**
+ * Check for UTF-16 without a BOM. Mostly-ASCII text leaves every other byte
+ * zero. Text in an alphabet below U+2000 (Greek, Cyrillic, Hebrew, Arabic and
+ * so on) repeats a high byte under 0x20 in every other position, such as 0x04
+ * for Cyrillic, while the low bytes vary.
+ */
+const detectUTF16 = (bytes: Uint8Array): EncodingDetectionResult | null => {
+  const pairs = Math.floor(bytes.length / 2);
+  if (pairs < 2) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  let evenLow = 0;
+  let oddLow = 0;
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+    if (bytes[i] < 0x20) evenLow++;
+    if (bytes[i + 1] < 0x20) oddLow++;
+  }
+
+  const even = evenZeros / pairs;
+  const odd = oddZeros / pairs;
+  if (odd > 0.3 && even < 0.05) {
+    return { encoding: 'utf-16le', confidence: Math.min(0.95, 0.5 + odd / 2), hasBOM: false };
+  }
+  if (even > 0.3 && odd < 0.05) {
+    return { encoding: 'utf-16be', confidence: Math.min(0.95, 0.5 + even / 2), hasBOM: false };
+  }
+
+  const evenHigh = evenLow / pairs;
+  const oddHigh = oddLow / pairs;
+  if (oddHigh > 0.8 && evenHigh < 0.4) {
+    return { encoding: 'utf-16le', confidence: Math.min(0.9, 0.5 + (oddHigh - evenHigh) / 2), hasBOM: false };
+  }
+  if (evenHigh > 0.8 && oddHigh < 0.4) {
+    return { encoding: 'utf-16be', confidence: Math.min(0.9, 0.5 + (evenHigh - oddHigh) / 2), hasBOM: false };
+  }
+  return null;
+};
+
+// NUL and C0 control bytes other than tab, line feed, form feed and carriage return
+const isControlByte = (byte: number): boolean => {
+  return byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d;
+};
+
+/**
+ * Count multi-byte UTF-8 sequences, or return -1 if the bytes are not valid
+ * UTF-8 or contain control bytes that text does not. A sequence cut off at the
+ * end of a truncated sample is tolerated.
+ */
+const countUTF8Sequences = (bytes: Uint8Array, truncated: boolean): number => {
+  let sequences = 0;
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    if (isControlByte(byte)) {
+      return -1;
+    }
+    if (byte < 0x80) {
+      i++;
+      continue;
+    }
+
+    let length: number;
+    if (byte >= 0xc2 && byte <= 0xdf) length = 2;
+    else if (byte >= 0xe0 && byte <= 0xef) length = 3;
+    else if (byte >= 0xf0 && byte <= 0xf4) length = 4;
+    else return -1;
+
+    for (let j = 1; j < length; j++) {
+      if (i + j >= bytes.length) return truncated ? sequences : -1;
+      if ((bytes[i + j] & 0xc0) !== 0x80) return -1;
+    }
+
+    sequences++;
+    i += length;
+  }
+
+  return sequences;
+};
+
+const round = (value: number): number => Math.round(Math.max(0, Math.min(1, value)) * 100) / 100;
+
+/**
+ * Detect the encoding of a byte sample. `truncated` tells whether the sample
+ * is shorter than the file it came from.
+ */
+export const detectEncoding = (bytes: Uint8Array, truncated = false): EncodingDetectionResult => {
+  for (const [signature, encoding] of BOMS) {
+    if (signature.every((byte, index) => bytes[index] === byte)) {
+      return { encoding, confidence: 1, hasBOM: true };
+    }
+  }
+
+  const utf16 = detectUTF16(bytes);
+  if (utf16) {
+    return utf16;
+  }
+
+  const sequences = countUTF8Sequences(bytes, truncated);
+  if (sequences === 0) {
+    // Pure ASCII decodes identically in every candidate; only a BOM is certain
+    return { encoding: 'utf-8', confidence: 0.99, hasBOM: false };
+  }
+  if (sequences > 0) {
+    return { encoding: 'utf-8', confidence: sequences >= 4 ? 0.99 : 0.9, hasBOM: false };
+  }
+
+  // ASCII with stray control bytes, such as terminal escapes in a log, that did not look like UTF-16
+  if (bytes.every(byte => byte < 0x80)) {
+    return { encoding: 'utf-8', confidence: 0.5, hasBOM: false };
+  }
+
+  // Decode with every candidate that accepts the bytes and compare how natural the text looks
+  const scored: Array<{ encoding: string; score: number; sample: number }> = [];
+  for (const profile of PROFILES) {
+    if (profile.encoding.startsWith('utf-16') && bytes.length % 2 === 1 && !truncated) {
+      continue;
+    }
+
+    let text: string;
+    try {
+      text = new TextDecoder(profile.encoding, { fatal: true }).decode(bytes, { stream: truncated });
+    } catch {
+      continue;
+    }
+
+    const stats = collectStats(text);
+    if (stats.nonAscii > 0) {
+      scored.push({ encoding: profile.encoding, score: Math.max(0, profile.score(stats)), sample: stats.nonAscii });
+    }
+  }
+
+  if (scored.length === 0) {
+    return { encoding: 'windows-1252', confidence: 0.1, hasBOM: false };
+  }
+
+  // Stable sort keeps the profile order as the tie-breaker
+  scored.sort((a, b) => b.score - a.score);
+  const [best, second] = scored;
+  const margin = second && best.score > 0 ? (best.score - second.score) / best.score : 1;
+
+  // Confidence grows with the lead over the runner-up and with the amount of evidence
+  const confidence = best.score * (0.6 + 0.4 * margin) * (0.7 + 0.3 * Math.min(1, best.sample / 32));
+
+  return { encoding: best.encoding, confidence: round(confidence), hasBOM: false };
+};
+
+/**
+ * Read the start of a file and detect its encoding
+ */
+export const detectFileEncoding = async (file: Blob, signal?: AbortSignal): Promise<EncodingDetectionResult> => {
+  const buffer = await readBlob(file.slice(0, SAMPLE_SIZE), signal);
+  return detectEncoding(new Uint8Array(buffer), file.size > SAMPLE_SIZE);
+};
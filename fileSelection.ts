@@ -0,0 +1,219 @@
+/**
+ * File Selection
+ *
+ * Collects files from drops, pastes and directory inputs, walking dropped
+ * folders recursively and remembering each file's path relative to the drop,
+ * and filters them with include and exclude glob patterns.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+// Types and Interfaces
+export interface FileFilterOptions {
+  include?: string[];
+  exclude?: string[];
+}
+
+// Paths of files found by walking dropped folders; Files cannot carry them natively
+const relativePaths = new WeakMap<File, string>();
+
+const globCache = new Map<string, RegExp>();
+
+// Extensions for pasted data whose MIME subtype is not the usual extension
+const PASTE_EXTENSIONS: Record<string, string> = {
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg'
+};
+
+/**
+ * Check whether the brace at `start` is closed later in the pattern
+ */
+const hasClosingBrace = (pattern: string, start: number): boolean => {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === '{') {
+      depth++;
+    } else if (pattern[i] === '}' && --depth === 0) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Compile a glob pattern. `*` and `?` stay within one path segment, `**`
+ * spans segments and `{a,b}` matches either alternative.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  const cached = globCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // '**/' also matches no folder at all
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && hasClosingBrace(pattern, i)) {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  globCache.set(pattern, regExp);
+  return regExp;
+};
+
+/**
+ * Match a relative path against a glob. Patterns without a '/' match the
+ * last path segment, so '*.log' matches logs in any folder.
+ */
+export const matchesGlob = (path: string, pattern: string): boolean => {
+  const target = pattern.includes('/') ? path : path.slice(path.lastIndexOf('/') + 1);
+  return globToRegExp(pattern).test(target);
+};
+
+/**
+ * Check a path against include and exclude patterns
+ */
+export const isPathSelected = (path: string, filter: FileFilterOptions = {}): boolean => {
+  if (filter.include?.length && !filter.include.some(pattern => matchesGlob(path, pattern))) {
+    return false;
+  }
+  return !filter.exclude?.some(pattern => matchesGlob(path, pattern));
+};
+
+/**
+ * Get the path of a file relative to the dropped or selected folder
+ */
+export const getRelativePath = (file: File): string | undefined => {
+  return relativePaths.get(file) || file.webkitRelativePath || undefined;
+};
+
+/**
+ * Keep the files whose relative path (or name) passes the filter
+ */
+export const filterFiles = (files: File[], filter: FileFilterOptions = {}): File[] => {
+  if (!filter.include?.length && !filter.exclude?.length) {
+    return files;
+  }
+  return files.filter(file => isPathSelected(getRelativePath(file) || file.name, filter));
+};
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> => {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+};
+
+/**
+ * List a directory's children; readEntries returns them in batches until an empty one
+ */
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) {
+      return entries;
+    }
+    entries.push(...batch);
+  }
+};
+
+/**
+ * Collect the selected files below an entry, skipping excluded folders entirely
+ */
+const walkEntry = async (entry: FileSystemEntry, filter: FileFilterOptions, files: File[]): Promise<void> => {
+  const path = entry.fullPath.replace(/^\//, '') || entry.name;
+
+  if (entry.isFile) {
+    if (isPathSelected(path, filter)) {
+      const file = await readEntryFile(entry as FileSystemFileEntry);
+      relativePaths.set(file, path);
+      files.push(file);
+    }
+    return;
+  }
+
+  if (entry.isDirectory && !filter.exclude?.some(pattern => matchesGlob(path, pattern))) {
+    for (const child of await readDirectoryEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, filter, files);
+    }
+  }
+};
+
+/**
+ * Collect the files of a drop, descending into dropped folders where the
+ * browser exposes them as entries
+ */
+export const collectDataTransferFiles = async (
+  dataTransfer: DataTransfer,
+  filter: FileFilterOptions = {}
+): Promise<File[]> => {
+  // Both lists are emptied once the drop handler yields, so take them up front
+  const droppedFiles = Array.from(dataTransfer.files);
+  const entries = Array.from(dataTransfer.items || [])
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return filterFiles(droppedFiles, filter);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    await walkEntry(entry!, filter, files);
+  }
+  return files;
+};
+
+/**
+ * Collect pasted files and images. Some browsers hand over pasted image data
+ * without a file name, so those get one built from their MIME type.
+ */
+export const collectClipboardFiles = (clipboardData: DataTransfer | null): File[] => {
+  if (!clipboardData) {
+    return [];
+  }
+
+  const itemFiles = Array.from(clipboardData.items || [])
+    .filter(item => item.kind === 'file')
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null);
+  const files = itemFiles.length > 0 ? itemFiles : Array.from(clipboardData.files || []);
+
+  return files.map((file, index) => {
+    if (file.name) {
+      return file;
+    }
+
+    const extension = PASTE_EXTENSIONS[file.type] || file.type.split('/')[1]?.split('+')[0] || 'bin';
+    return new File([file], `pasted-${index + 1}.${extension}`, { type: file.type, lastModified: file.lastModified });
+  });
+};
@@ -0,0 +1,154 @@
+/**
+ * Chunked File Reader
+ *
+ * Reads a File in fixed-size slices and decodes it incrementally, computing
+ * character, word and line counts and an optional SHA-256 checksum as it goes,
+ * so large files never have to be held in memory as a single string.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { createSHA256 } from './sha256';
+
+// Types and Interfaces
+export interface ChunkedReadOptions {
+  chunkSize?: number;
+  encoding?: string;
+  calculateChecksum?: boolean;
+  retainContent?: boolean;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChunkedReadResult {
+  content: string;
+  characterCount: number;
+  wordCount: number;
+  lineCount: number;
+  checksum?: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Read a Blob slice into an ArrayBuffer, aborting the read if the signal fires
+ */
+export const readBlob = (blob: Blob, signal?: AbortSignal): Promise<ArrayBuffer> => {
+  return new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    const onAbort = () => reader.abort();
+
+    reader.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(reader.result as ArrayBuffer);
+    };
+
+    reader.onerror = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error('Failed to read file chunk'));
+    };
+
+    reader.onabort = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error('Operation was aborted'));
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    reader.readAsArrayBuffer(blob);
+  });
+};
+
+/**
+ * Count occurrences of '\n' in a string
+ */
+const countNewlines = (text: string): number => {
+  let count = 0;
+  let index = text.indexOf('\n');
+
+  while (index !== -1) {
+    count++;
+    index = text.indexOf('\n', index + 1);
+  }
+
+  return count;
+};
+
+/**
+ * Read a file chunk by chunk, producing the same counts and checksum as
+ * reading the whole file at once
+ */
+export const readFileInChunks = async (file: Blob, options: ChunkedReadOptions): Promise<ChunkedReadResult> => {
+  const chunkSize = Math.max(1, options.chunkSize || DEFAULT_CHUNK_SIZE);
+  const retainContent = options.retainContent !== false;
+
+  // A streaming decoder carries multi-byte sequences split across chunk boundaries
+  const decoder = new TextDecoder(options.encoding || 'utf-8');
+  const encoder = new TextEncoder();
+  const hasher = options.calculateChecksum ? createSHA256() : null;
+
+  const parts: string[] = [];
+  let characterCount = 0;
+  let wordCount = 0;
+  let newlineCount = 0;
+  let endsInWord = false;
+
+  const consume = (text: string) => {
+    if (!text) {
+      return;
+    }
+
+    characterCount += text.length;
+    newlineCount += countNewlines(text);
+
+    // A word continuing from the previous chunk was already counted
+    const words = text.match(/\S+/g);
+    if (words) {
+      wordCount += words.length;
+      if (endsInWord && /^\S/.test(text)) {
+        wordCount--;
+      }
+    }
+    endsInWord = /\S$/.test(text);
+
+    // Hash the decoded text so checksums match the non-streaming path
+    hasher?.update(encoder.encode(text));
+
+    if (retainContent) {
+      parts.push(text);
+    }
+  };
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    if (options.signal?.aborted) {
+      throw new Error('Operation was aborted');
+    }
+
+    const buffer = await readBlob(file.slice(offset, offset + chunkSize), options.signal);
+    consume(decoder.decode(new Uint8Array(buffer), { stream: true }));
+    options.onProgress?.((Math.min(offset + chunkSize, file.size) / file.size) * 100);
+  }
+  consume(decoder.decode());
+
+  return {
+    content: parts.join(''),
+    characterCount,
+    wordCount,
+    lineCount: newlineCount + 1,
+    checksum: hasher?.digest()
+  };
+};
+
+/**
+ * Compute the SHA-256 checksum of a file's raw bytes, one chunk at a time
+ */
+export const hashBlob = async (blob: Blob, chunkSize = DEFAULT_CHUNK_SIZE, signal?: AbortSignal): Promise<string> => {
+  const hasher = createSHA256();
+
+  for (let offset = 0; offset < blob.size; offset += chunkSize) {
+    const buffer = await readBlob(blob.slice(offset, offset + chunkSize), signal);
+    hasher.update(new Uint8Array(buffer));
+  }
+
+  return hasher.digest();
+};
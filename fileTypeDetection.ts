@@ -0,0 +1,299 @@
+/**
+ * File Type Detection
+ *
+ * Identifies files from their leading bytes ("magic numbers") instead of
+ * trusting the browser-reported MIME type or the file name, and matches MIME
+ * types against wildcard patterns such as `image/*`.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { readBlob } from './fileStreamReader';
+
+// Types and Interfaces
+export type TextEncodingHint = 'utf-8' | 'utf-16le' | 'utf-16be';
+
+export interface DetectedFileType {
+  mimeType: string;
+  extension?: string;
+  isText: boolean;
+  encoding?: TextEncodingHint;
+}
+
+// Number of leading bytes inspected; large enough to see the first few zip entries
+const SNIFF_LENGTH = 8192;
+
+// MIME types for text formats, keyed by file extension
+const TEXT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.xml': 'application/xml',
+  '.json': 'application/json',
+  '.ndjson': 'application/x-ndjson',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml'
+};
+
+// Alternative spellings of the same MIME type seen in the wild
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'application/x-pdf': 'application/pdf',
+  'application/x-zip-compressed': 'application/zip',
+  'application/x-zip': 'application/zip',
+  'application/x-gzip': 'application/gzip',
+  'text/x-markdown': 'text/markdown',
+  'text/json': 'application/json'
+};
+
+const ZIP_TYPE = 'application/zip';
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const PPTX_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const ZIP_CONTAINER_TYPES = [ZIP_TYPE, DOCX_TYPE, XLSX_TYPE, PPTX_TYPE];
+
+/**
+ * Strip parameters and normalize aliases so MIME types can be compared
+ */
+export const normalizeMimeType = (mimeType: string): string => {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] || base;
+};
+
+/**
+ * Check a MIME type against a pattern that may use wildcards (`image/*`, `*`)
+ */
+export const matchesMimeType = (mimeType: string, pattern: string): boolean => {
+  const type = normalizeMimeType(mimeType);
+  const normalizedPattern = pattern.trim().toLowerCase();
+
+  if (!type) {
+    return false;
+  }
+
+  if (normalizedPattern === '*' || normalizedPattern === '*/*') {
+    return true;
+  }
+
+  if (normalizedPattern.endsWith('/*')) {
+    return type.startsWith(normalizedPattern.slice(0, -1));
+  }
+
+  return type === normalizeMimeType(normalizedPattern);
+};
+
+/**
+ * Check whether a MIME type describes textual content
+ */
+export const isTextMimeType = (mimeType: string): boolean => {
+  const type = normalizeMimeType(mimeType);
+  return type.startsWith('text/') || /[/+](json|xml|yaml|x-ndjson|javascript)$/.test(type);
+};
+
+/**
+ * Get the lowercase extension of a file name, including the dot
+ */
+export const getFileExtension = (fileName: string): string => {
+  const index = fileName.lastIndexOf('.');
+  return index > 0 ? fileName.slice(index).toLowerCase() : '';
+};
+
+/**
+ * Look up the MIME type for a text file extension
+ */
+export const getTextMimeType = (fileName: string): string | undefined => {
+  return TEXT_TYPES_BY_EXTENSION[getFileExtension(fileName)];
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean => {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+};
+
+/**
+ * Identify the kind of document stored in a zip container from its entry names
+ */
+const detectZipContainer = (bytes: Uint8Array): DetectedFileType => {
+  const names = new TextDecoder('latin1').decode(bytes);
+
+  if (names.includes('word/')) {
+    return { mimeType: DOCX_TYPE, extension: '.docx', isText: false };
+  }
+  if (names.includes('xl/')) {
+    return { mimeType: XLSX_TYPE, extension: '.xlsx', isText: false };
+  }
+  if (names.includes('ppt/')) {
+    return { mimeType: PPTX_TYPE, extension: '.pptx', isText: false };
+  }
+  return { mimeType: ZIP_TYPE, extension: '.zip', isText: false };
+};
+
+/**
+ * Check whether bytes look like text: valid UTF-8 without control characters
+ * other than common whitespace. A multi-byte sequence cut off at the end of
+ * the sample is tolerated.
+ */
+const looksLikeText = (bytes: Uint8Array, truncated: boolean): boolean => {
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+
+    if (byte < 0x80) {
+      if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b) {
+        return false;
+      }
+      i++;
+      continue;
+    }
+
+    let length: number;
+    if (byte >= 0xc2 && byte <= 0xdf) {
+      length = 2;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      length = 3;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      length = 4;
+    } else {
+      return false;
+    }
+
+    for (let j = 1; j < length; j++) {
+      if (i + j >= bytes.length) {
+        return truncated;
+      }
+      if ((bytes[i + j] & 0xc0) !== 0x80) {
+        return false;
+      }
+    }
+
+    i += length;
+  }
+
+  return true;
+};
+
+/**
+ * Detect a file type from its leading bytes. `truncated` tells whether the
+ * sample is shorter than the file it came from.
+ */
+export const detectFileTypeFromBytes = (bytes: Uint8Array, truncated = false): DetectedFileType | null => {
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+    return { mimeType: 'application/pdf', extension: '.pdf', isText: false };
+  }
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])) {
+    return detectZipContainer(bytes);
+  }
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { mimeType: 'image/png', extension: '.png', isText: false };
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return { mimeType: 'image/jpeg', extension: '.jpg', isText: false };
+  }
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38]) && (bytes[4] === 0x37 || bytes[4] === 0x39) && bytes[5] === 0x61) {
+    return { mimeType: 'image/gif', extension: '.gif', isText: false };
+  }
+  if (startsWith(bytes, [0x1f, 0x8b])) {
+    return { mimeType: 'application/gzip', extension: '.gz', isText: false };
+  }
+
+  let encoding: TextEncodingHint | undefined;
+  let text: string;
+
+  if (startsWith(bytes, [0xff, 0xfe])) {
+    encoding = 'utf-16le';
+    text = new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  } else if (startsWith(bytes, [0xfe, 0xff])) {
+    encoding = 'utf-16be';
+    text = new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  } else {
+    const body = startsWith(bytes, [0xef, 0xbb, 0xbf]) ? bytes.subarray(3) : bytes;
+    if (!looksLikeText(body, truncated)) {
+      return null;
+    }
+    encoding = body === bytes ? undefined : 'utf-8';
+    text = new TextDecoder('utf-8').decode(body);
+  }
+
+  // JSON: an object or array at the start that parses when the whole file was sampled
+  const trimmed = text.trim();
+  if (/^[{[]/.test(trimmed)) {
+    let isJSON = truncated;
+    if (!truncated) {
+      try {
+        JSON.parse(trimmed);
+        isJSON = true;
+      } catch {
+        isJSON = false;
+      }
+    }
+    if (isJSON) {
+      return { mimeType: 'application/json', extension: '.json', isText: true, encoding };
+    }
+  }
+
+  return { mimeType: 'text/plain', isText: true, encoding };
+};
+
+/**
+ * Read the start of a file and detect its type
+ */
+export const detectFileType = async (file: Blob, signal?: AbortSignal): Promise<DetectedFileType | null> => {
+  if (file.size === 0) {
+    return null;
+  }
+
+  const buffer = await readBlob(file.slice(0, SNIFF_LENGTH), signal);
+  return detectFileTypeFromBytes(new Uint8Array(buffer), file.size > SNIFF_LENGTH);
+};
+
+/**
+ * Decide whether a declared MIME type is consistent with the detected one.
+ * A binary signature must match the declared type, even when that type is
+ * text. Text declared under a vendor type (Excel reports .csv files as
+ * application/vnd.ms-excel) passes when the file name has a text extension.
+ */
+export const isCompatibleMimeType = (declaredType: string, detected: DetectedFileType, fileName = ''): boolean => {
+  const declared = normalizeMimeType(declaredType);
+
+  if (!declared || declared === 'application/octet-stream') {
+    return true;
+  }
+
+  // Plain text detection only tells us "some text", so any text type fits and
+  // otherwise the file name decides
+  if (detected.isText) {
+    return isTextMimeType(declared) || getTextMimeType(fileName) !== undefined;
+  }
+
+  if (ZIP_CONTAINER_TYPES.includes(detected.mimeType) && ZIP_CONTAINER_TYPES.includes(declared)) {
+    return detected.mimeType === ZIP_TYPE || declared === ZIP_TYPE || declared === detected.mimeType;
+  }
+
+  return declared === detected.mimeType;
+};
+
+/**
+ * Pick the MIME type to validate against. Binary signatures win over what the
+ * file claims to be; for text, the declared type is more specific than
+ * "some text" and is kept.
+ */
+export const resolveMimeType = (declaredType: string, detected: DetectedFileType | null): string => {
+  if (!detected) {
+    return declaredType;
+  }
+
+  if (detected.isText) {
+    return declaredType || detected.mimeType;
+  }
+
+  // A generic zip signature does not rule out a more specific Office type
+  return detected.mimeType === ZIP_TYPE && declaredType ? declaredType : detected.mimeType;
+};
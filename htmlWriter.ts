@@ -0,0 +1,606 @@
+/**
+ * HTML Writer
+ *
+ * Builds standalone HTML reports. Every value from the report is escaped,
+ * tables follow the report's column schema or take their columns from all
+ * rows, and nested objects and arrays are rendered as sub-tables. Grouped
+ * reports become nested sections with subtotals and a grand total. Reports
+ * carry a Content-Security-Policy that only admits their own inline
+ * stylesheet and, in interactive mode, the small script that makes table
+ * columns sortable and filterable.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { escapeHTML } from './templateEngine';
+import { createSHA256 } from './sha256';
+import { ReportColumns, resolveColumns, ResolvedColumn } from './reportColumns';
+import {
+  AggregateResult,
+  describeGroup,
+  formatAggregate,
+  groupReportData,
+  ReportGroup,
+  ReportGrouping
+} from './reportGrouping';
+import type { ReportRowWriter } from './reportStream';
+import type { HTMLReportOptions, ReportData, ReportMetadata, ReportStyling } from './useReportGenerator';
+
+// Types and Interfaces
+export interface HTMLDocumentOptions {
+  metadata?: ReportMetadata;
+  styling?: ReportStyling;
+  html?: HTMLReportOptions;
+  columns?: ReportColumns;
+  locale?: string | string[];
+  grouping?: ReportGrouping;
+}
+
+type PlainRecord = Record<string, unknown>;
+
+/**
+ * Enhances tables marked with data-sortable or data-filterable. Kept free of
+ * string-built markup so it needs nothing beyond its own hash in the CSP.
+ */
+const INTERACTIVE_SCRIPT = `
+(function () {
+  var collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+  var tables = document.querySelectorAll('table[data-sortable], table[data-filterable]');
+
+  Array.prototype.forEach.call(tables, function (table) {
+    var header = table.tHead.rows[0];
+    var body = table.tBodies[0];
+    var rows = Array.prototype.slice.call(body.rows);
+    var filters = [];
+    var filterRow = table.hasAttribute('data-filterable') ? table.tHead.insertRow() : null;
+
+    var sortValue = function (row, index) {
+      var cell = row.cells[index];
+      return cell ? cell.getAttribute('data-sort-value') || cell.textContent.trim() : '';
+    };
+
+    var sortBy = function (index) {
+      var cell = header.cells[index];
+      var descending = cell.getAttribute('aria-sort') === 'ascending';
+      Array.prototype.forEach.call(header.cells, function (other) { other.removeAttribute('aria-sort'); });
+      cell.setAttribute('aria-sort', descending ? 'descending' : 'ascending');
+
+      rows.sort(function (a, b) {
+        var x = sortValue(a, index);
+        var y = sortValue(b, index);
+        var result = x !== '' && y !== '' && !isNaN(x) && !isNaN(y) ? x - y : collator.compare(x, y);
+        return descending ? -result : result;
+      });
+      rows.forEach(function (row) { body.appendChild(row); });
+    };
+
+    var applyFilters = function () {
+      var queries = filters.map(function (input) { return input.value.trim().toLowerCase(); });
+      rows.forEach(function (row) {
+        row.hidden = queries.some(function (query, index) {
+          var cell = row.cells[index];
+          return query !== '' && (!cell || cell.textContent.toLowerCase().indexOf(query) === -1);
+        });
+      });
+    };
+
+    Array.prototype.forEach.call(header.cells, function (cell, index) {
+      var label = cell.textContent;
+
+      if (table.hasAttribute('data-sortable')) {
+        var button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'sort-button';
+        button.textContent = label;
+        button.addEventListener('click', function () { sortBy(index); });
+        cell.textContent = '';
+        cell.appendChild(button);
+      }
+
+      if (filterRow) {
+        var input = document.createElement('input');
+        input.type = 'search';
+        input.className = 'column-filter';
+        input.setAttribute('aria-label', 'Filter ' + label);
+        input.addEventListener('input', applyFilters);
+        filters.push(input);
+        var filterCell = document.createElement('th');
+        filterCell.appendChild(input);
+        filterRow.appendChild(filterCell);
+      }
+    });
+  });
+})();
+`;
+
+const isRecord = (value: unknown): value is PlainRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+};
+
+/**
+ * Keep a styling value from closing its declaration or the style element
+ */
+const sanitizeCSSValue = (value: string | undefined): string => {
+  return (value || '').replace(/[<>{};]/g, '');
+};
+
+/**
+ * Compute a CSP source expression for an inline script or stylesheet
+ */
+const hashSource = (source: string): string => {
+  const hasher = createSHA256();
+  hasher.update(new TextEncoder().encode(source));
+  const hex = hasher.digest();
+
+  let binary = '';
+  for (let i = 0; i < hex.length; i += 2) {
+    binary += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return `'sha256-${btoa(binary)}'`;
+};
+
+/**
+ * Raw value for sorting cells whose text is formatted for display
+ */
+const sortAttribute = (value: unknown): string => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : ` data-sort-value="${value.getTime()}"`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return ` data-sort-value="${value}"`;
+  }
+  if (typeof value === 'boolean') {
+    return ` data-sort-value="${value ? 1 : 0}"`;
+  }
+  return '';
+};
+
+const alignAttribute = (column: ResolvedColumn): string => {
+  return column.align === 'left' ? '' : ` class="align-${column.align}"`;
+};
+
+const renderCell = (value: unknown, seen: Set<object>, attributes = ''): string => {
+  // Dates display in the viewer's locale but sort by time
+  return `<td${attributes}${value instanceof Date ? sortAttribute(value) : ''}>${renderValue(value, seen)}</td>`;
+};
+
+/**
+ * Render a schema column's cell: formatted text for typed columns, nested markup otherwise
+ */
+const renderColumnCell = (column: ResolvedColumn, row: PlainRecord, seen: Set<object>): string => {
+  const value = column.getValue(row);
+  if (!column.format) {
+    return renderCell(value, seen, alignAttribute(column));
+  }
+
+  return `<td${alignAttribute(column)}${sortAttribute(value)}>${escapeHTML(column.format(value, row))}</td>`;
+};
+
+const renderHeaderCells = (columns: ResolvedColumn[]): string => {
+  return columns.map(column => `<th scope="col"${alignAttribute(column)}>${escapeHTML(column.label)}</th>`).join('');
+};
+
+/**
+ * Render rows as a table, by default with the union of every row's keys as columns
+ */
+const renderRowsTable = (
+  rows: PlainRecord[],
+  seen: Set<object>,
+  attributes = 'class="nested-table"',
+  columns: ResolvedColumn[] = resolveColumns(rows)
+): string => {
+  const headerRow = renderHeaderCells(columns);
+  const bodyRows = rows
+    .map(row => `<tr>${columns.map(column => renderColumnCell(column, row, seen)).join('')}</tr>`)
+    .join('');
+
+  return `<table ${attributes}><thead><tr>${headerRow}</tr></thead><tbody>${bodyRows}</tbody></table>`;
+};
+
+/**
+ * Render an object as a two-column table of keys and values
+ */
+const renderRecordTable = (
+  record: PlainRecord,
+  seen: Set<object>,
+  attributes = 'class="nested-table"',
+  columns: ResolvedColumn[] = resolveColumns([record])
+): string => {
+  const rows = columns
+    .map(column => `<tr><th scope="row">${escapeHTML(column.label)}</th>${renderColumnCell(column, record, seen)}</tr>`)
+    .join('');
+
+  return `<table ${attributes}><tbody>${rows}</tbody></table>`;
+};
+
+/**
+ * Render any value as escaped markup, nesting tables for objects and arrays of objects
+ */
+const renderValue = (value: unknown, seen: Set<object>): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : escapeHTML(value.toLocaleString());
+  }
+  if (typeof value !== 'object') {
+    return escapeHTML(String(value));
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+
+  seen.add(value);
+  try {
+    if (!Array.isArray(value)) {
+      return renderRecordTable(value as PlainRecord, seen);
+    }
+    if (value.length > 0 && value.every(isRecord)) {
+      return renderRowsTable(value, seen);
+    }
+    if (value.every(item => typeof item !== 'object' || item === null || item instanceof Date)) {
+      return value.map(item => renderValue(item, seen)).join(', ');
+    }
+    return `<ul class="value-list">${value.map(item => `<li>${renderValue(item, seen)}</li>`).join('')}</ul>`;
+  } finally {
+    seen.delete(value);
+  }
+};
+
+/**
+ * Attributes of the main data table, marking it for the interactive script
+ */
+const dataTableAttributes = (interactive: HTMLReportOptions['interactive']): string => {
+  const features = interactive === true ? { sortable: true, filterable: true } : interactive || {};
+  return [
+    'class="data-table"',
+    features.sortable !== false && interactive ? 'data-sortable' : '',
+    features.filterable !== false && interactive ? 'data-filterable' : ''
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * Render aggregate results as a list of labels and values
+ */
+const renderSummary = (results: AggregateResult[], columns: ResolvedColumn[], locale?: string | string[]): string => {
+  if (results.length === 0) {
+    return '';
+  }
+
+  const items = results
+    .map(result => `<div><dt>${escapeHTML(result.label)}</dt><dd>${escapeHTML(formatAggregate(result, columns, locale))}</dd></div>`)
+    .join('');
+  return `<dl class="group-summary">${items}</dl>`;
+};
+
+/**
+ * Render groups as nested sections, each ending with its subtotals
+ */
+const renderGroups = (
+  groups: ReportGroup[],
+  columns: ResolvedColumn[],
+  attributes: string,
+  options: HTMLDocumentOptions,
+  seen: Set<object>
+): string => {
+  return groups.map(group => {
+    const level = Math.min(group.depth + 2, 6);
+    const content = group.groups.length > 0
+      ? renderGroups(group.groups, columns, attributes, options, seen)
+      : renderRowsTable(group.rows, seen, attributes, columns);
+
+    return `<section class="report-group"><h${level} class="group-heading">${escapeHTML(describeGroup(group, columns))}</h${level}>` +
+      `${content}${renderSummary(group.summary, columns, options.locale)}</section>`;
+  }).join('');
+};
+
+/**
+ * Render the report body: record arrays as the main table or grouped sections, objects as key-value tables
+ */
+const renderData = (data: unknown, options: HTMLDocumentOptions): string => {
+  const seen = new Set<object>();
+
+  if (Array.isArray(data) && data.length > 0 && data.every(isRecord)) {
+    const attributes = dataTableAttributes(options.html?.interactive);
+    const columns = resolveColumns(data, options.columns, options.locale);
+
+    if (!options.grouping) {
+      return renderRowsTable(data, seen, attributes, columns);
+    }
+
+    const grouped = groupReportData(data, options.grouping, columns);
+    const total = grouped.total.length > 0
+      ? `<section class="report-group report-total"><h2 class="group-heading">Total</h2>${renderSummary(grouped.total, columns, options.locale)}</section>`
+      : '';
+    return renderGroups(grouped.groups, columns, attributes, options, seen) + total;
+  }
+
+  if (isRecord(data)) {
+    return renderRecordTable(data, seen, 'class="data-table record-table"', resolveColumns([data], options.columns, options.locale));
+  }
+
+  return `
+      <div class="json-container">
+        <pre class="json-content">${escapeHTML(JSON.stringify(data, null, 2) ?? '')}</pre>
+      </div>
+    `;
+};
+
+const buildCSS = (styling: ReportStyling): string => {
+  const primaryColor = sanitizeCSSValue(styling.primaryColor);
+  const dark = styling.theme === 'dark';
+
+  return `
+    body {
+      font-family: ${sanitizeCSSValue(styling.fontFamily)};
+      font-size: ${sanitizeCSSValue(styling.fontSize)};
+      line-height: 1.6;
+      color: ${dark ? '#e5e7eb' : '#374151'};
+      background-color: ${dark ? '#1f2937' : '#ffffff'};
+      margin: 0;
+      padding: 20px;
+    }
+
+    .report-container {
+      max-width: 1200px;
+      margin: 0 auto;
+      background: ${dark ? '#374151' : '#f9fafb'};
+      border-radius: 8px;
+      padding: 30px;
+      box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+    }
+
+    .report-header {
+      border-bottom: 3px solid ${primaryColor};
+      padding-bottom: 20px;
+      margin-bottom: 30px;
+    }
+
+    .report-title {
+      color: ${primaryColor};
+      font-size: 2.5em;
+      margin: 0 0 10px 0;
+      font-weight: bold;
+    }
+
+    .report-meta {
+      color: ${dark ? '#9ca3af' : '#6b7280'};
+      font-size: 0.9em;
+    }
+
+    .data-section {
+      margin: 20px 0;
+      overflow-x: auto;
+    }
+
+    .data-table {
+      width: 100%;
+      border-collapse: collapse;
+      margin: 20px 0;
+    }
+
+    .data-table th,
+    .data-table td {
+      border: 1px solid ${dark ? '#4b5563' : '#d1d5db'};
+      padding: 12px;
+      text-align: left;
+      vertical-align: top;
+    }
+
+    .data-table th {
+      background-color: ${primaryColor};
+      color: white;
+      font-weight: bold;
+    }
+
+    .data-table tr:nth-child(even) {
+      background-color: ${dark ? '#4b5563' : '#f3f4f6'};
+    }
+
+    .data-table .align-right {
+      text-align: right;
+    }
+
+    .data-table .align-center {
+      text-align: center;
+    }
+
+    .data-table tr[hidden] {
+      display: none;
+    }
+
+    .nested-table {
+      border-collapse: collapse;
+      font-size: 0.9em;
+    }
+
+    .data-table .nested-table th,
+    .data-table .nested-table td {
+      padding: 4px 8px;
+    }
+
+    .data-table .nested-table th {
+      background-color: transparent;
+      color: inherit;
+    }
+
+    .report-group {
+      margin: 24px 0;
+    }
+
+    .report-group .report-group {
+      margin-left: 16px;
+    }
+
+    .group-heading {
+      color: ${primaryColor};
+      margin: 0 0 8px 0;
+    }
+
+    .group-summary {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px 24px;
+      margin: 8px 0 0 0;
+      font-weight: bold;
+    }
+
+    .group-summary div {
+      display: flex;
+      gap: 6px;
+    }
+
+    .group-summary dt {
+      color: ${dark ? '#9ca3af' : '#6b7280'};
+      font-weight: normal;
+    }
+
+    .group-summary dd {
+      margin: 0;
+    }
+
+    .value-list {
+      margin: 0;
+      padding-left: 1.2em;
+    }
+
+    .sort-button {
+      background: none;
+      border: none;
+      color: inherit;
+      cursor: pointer;
+      font: inherit;
+      padding: 0;
+      text-align: left;
+    }
+
+    .sort-button::after {
+      content: ' \\2195';
+      opacity: 0.6;
+    }
+
+    th[aria-sort="ascending"] .sort-button::after {
+      content: ' \\2191';
+    }
+
+    th[aria-sort="descending"] .sort-button::after {
+      content: ' \\2193';
+    }
+
+    .column-filter {
+      box-sizing: border-box;
+      width: 100%;
+      font: inherit;
+      font-weight: normal;
+      padding: 4px;
+    }
+
+    .json-container {
+      background-color: ${dark ? '#1f2937' : '#f8f9fa'};
+      border: 1px solid ${dark ? '#4b5563' : '#e5e7eb'};
+      border-radius: 4px;
+      padding: 15px;
+      overflow-x: auto;
+    }
+
+    .json-content {
+      font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+      font-size: 0.9em;
+      white-space: pre-wrap;
+      margin: 0;
+    }
+
+    ${(styling.customCSS || '').replace(/<\/(style)/gi, '<\\/$1')}
+  `;
+};
+
+/**
+ * Render the document around the report body: head, stylesheet, policy,
+ * report header and, in interactive mode, the script
+ */
+const renderDocumentShell = (options: HTMLDocumentOptions): { head: string; tail: string } => {
+  const styling = options.styling || {};
+  const metadata = options.metadata;
+  const html = options.html || {};
+  const interactive = !!html.interactive;
+  const nonceValue = (html.nonce || '').replace(/[^A-Za-z0-9+/=_-]/g, '');
+  const nonce = nonceValue ? ` nonce="${nonceValue}"` : '';
+  const title = escapeHTML(String(metadata?.title || 'Report'));
+
+  const css = buildCSS(styling);
+
+  let policy = '';
+  if (html.contentSecurityPolicy !== false) {
+    const nonceSource = nonceValue ? ` 'nonce-${nonceValue}'` : '';
+    const directives = [
+      "default-src 'none'",
+      'img-src data: https:',
+      'font-src data: https:',
+      `style-src ${hashSource(css)}${nonceSource} https:`,
+      interactive ? `script-src ${hashSource(INTERACTIVE_SCRIPT)}${nonceSource}` : '',
+      "base-uri 'none'",
+      "form-action 'none'"
+    ].filter(Boolean);
+    policy = `<meta http-equiv="Content-Security-Policy" content="${directives.join('; ')}">`;
+  }
+
+  const head = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      ${policy}
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title}</title>
+      <style${nonce}>${css}</style>
+    </head>
+    <body>
+      <div class="report-container">
+        <div class="report-header">
+          <h1 class="report-title">${title}</h1>
+          <div class="report-meta">
+            ${metadata?.description ? `<p>${escapeHTML(String(metadata.description))}</p>` : ''}
+            <p>Generated on: ${escapeHTML(new Date().toLocaleString())}</p>
+            ${metadata?.author ? `<p>Author: ${escapeHTML(String(metadata.author))}</p>` : ''}
+            ${metadata?.version ? `<p>Version: ${escapeHTML(String(metadata.version))}</p>` : ''}
+          </div>
+        </div>
+
+        <div class="data-section">
+          `;
+
+  const tail = `
+        </div>
+      </div>
+      ${interactive ? `<script${nonce}>${INTERACTIVE_SCRIPT}</script>` : ''}
+    </body>
+    </html>
+  `;
+
+  return { head, tail };
+};
+
+/**
+ * Build a standalone HTML report document
+ */
+export const generateHTMLDocument = (data: ReportData | ReportData[], options: HTMLDocumentOptions = {}): string => {
+  const { head, tail } = renderDocumentShell(options);
+  return `${head}${renderData(data, options)}${tail}`;
+};
+
+/**
+ * Write an HTML report one table row at a time for streamed reports. Without
+ * a column schema, the columns come from the sample rows.
+ */
+export const createHTMLRowWriter = (sample: ReportData[], options: HTMLDocumentOptions = {}): ReportRowWriter => {
+  const { head, tail } = renderDocumentShell(options);
+  const columns = resolveColumns(sample, options.columns, options.locale);
+  const seen = new Set<object>();
+
+  return {
+    start: `${head}<table ${dataTableAttributes(options.html?.interactive)}><thead><tr>${renderHeaderCells(columns)}</tr></thead><tbody>`,
+    row: row => `<tr>${columns.map(column => renderColumnCell(column, row, seen)).join('')}</tr>`,
+    end: `</tbody></table>${tail}`
+  };
+};
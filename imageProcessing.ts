@@ -0,0 +1,420 @@
+/**
+ * Image Processing
+ *
+ * Reads dimensions and EXIF metadata straight from image file headers (PNG,
+ * JPEG, GIF, WebP and BMP), and draws thumbnails and resized copies on a
+ * canvas where the browser provides one.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { readBlob } from './fileStreamReader';
+import { matchesMimeType } from './fileTypeDetection';
+
+// Types and Interfaces
+export interface ImageGPS {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+export interface ImageExif {
+  orientation?: number;
+  capturedAt?: Date;
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  gps?: ImageGPS;
+}
+
+export interface ResizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface ImageInfo {
+  width: number; // as displayed, after applying the EXIF orientation
+  height: number;
+  exif?: ImageExif;
+  thumbnail?: string; // data URL
+  resized?: ResizedImage;
+}
+
+export interface ImageResizeOptions {
+  maxWidth?: number;
+  maxHeight?: number;
+  quality?: number; // 0 to 1, for lossy formats
+  type?: string; // output MIME type, defaults to the source type
+}
+
+export interface ImageProcessingOptions {
+  thumbnailSize?: number; // longest side in pixels, 0 disables thumbnails
+  resize?: ImageResizeOptions;
+  stripGPS?: boolean;
+}
+
+interface ImageHeader {
+  width: number;
+  height: number;
+  exif?: ImageExif;
+}
+
+// Leading bytes read to find dimensions; JPEG EXIF segments can be up to 64KB
+const HEADER_SAMPLE_SIZE = 256 * 1024;
+
+const DEFAULT_THUMBNAIL_SIZE = 128;
+
+// TIFF field types and their sizes in bytes
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // 'Exif\0\0'
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string => {
+  const slice = bytes.subarray(offset, offset + length);
+  let result = '';
+  // Spreading a large tag in one call overflows the stack, so decode in chunks
+  for (let i = 0; i < slice.length; i += 8192) {
+    result += String.fromCharCode(...Array.from(slice.subarray(i, i + 8192)));
+  }
+  return result;
+};
+
+const hasBytes = (bytes: Uint8Array, signature: number[], offset = 0): boolean => {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+};
+
+/**
+ * Parse 'YYYY:MM:DD HH:MM:SS' as a local time
+ */
+const parseExifDate = (value: string | undefined): Date | undefined => {
+  const match = value && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return undefined;
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Read the IFD0, Exif and GPS directories of a TIFF structure (the body of an EXIF block)
+ */
+export const parseExif = (bytes: Uint8Array): ImageExif | undefined => {
+  if (bytes.length < 8) return undefined;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const order = ascii(bytes, 0, 2);
+  if (order !== 'II' && order !== 'MM') return undefined;
+  const little = order === 'II';
+
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+
+  // Map of tag to raw values for one directory
+  const readDirectory = (offset: number): Map<number, Array<number | string>> => {
+    const entries = new Map<number, Array<number | string>>();
+    if (offset <= 0 || offset + 2 > bytes.length) return entries;
+
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > bytes.length) break;
+
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const valueCount = u32(entry + 4);
+      const size = TIFF_TYPE_SIZES[type];
+      if (!size) continue;
+
+      const valueOffset = size * valueCount <= 4 ? entry + 8 : u32(entry + 8);
+      if (valueOffset + size * valueCount > bytes.length) continue;
+
+      if (type === 2) {
+        entries.set(tag, [ascii(bytes, valueOffset, valueCount).replace(/\0[\s\S]*$/, '').trim()]);
+        continue;
+      }
+
+      const values: number[] = [];
+      for (let j = 0; j < Math.min(valueCount, 16); j++) {
+        const at = valueOffset + j * size;
+        if (type === 3) values.push(u16(at));
+        else if (type === 4) values.push(u32(at));
+        else if (type === 9) values.push(view.getInt32(at, little));
+        else if (type === 5) values.push(u32(at) / (u32(at + 4) || 1));
+        else if (type === 10) values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1));
+        else values.push(bytes[at]);
+      }
+      entries.set(tag, values);
+    }
+
+    return entries;
+  };
+
+  const text = (entries: Map<number, Array<number | string>>, tag: number) => {
+    const value = entries.get(tag)?.[0];
+    return typeof value === 'string' && value ? value : undefined;
+  };
+  const number = (entries: Map<number, Array<number | string>>, tag: number) => {
+    const value = entries.get(tag)?.[0];
+    return typeof value === 'number' ? value : undefined;
+  };
+
+  const ifd0 = readDirectory(u32(4));
+  const exifIFD = readDirectory(number(ifd0, 0x8769) || 0);
+  const gpsIFD = readDirectory(number(ifd0, 0x8825) || 0);
+
+  // Degrees, minutes and seconds, negated for south and west
+  const coordinate = (valueTag: number, refTag: number, negativeRef: string): number | undefined => {
+    const parts = gpsIFD.get(valueTag) as number[] | undefined;
+    if (!parts || parts.length < 3) return undefined;
+    const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+    return text(gpsIFD, refTag) === negativeRef ? -degrees : degrees;
+  };
+
+  const latitude = coordinate(2, 1, 'S');
+  const longitude = coordinate(4, 3, 'W');
+  const altitude = number(gpsIFD, 6);
+
+  return {
+    orientation: number(ifd0, 0x0112),
+    capturedAt: parseExifDate(text(exifIFD, 0x9003) || text(ifd0, 0x0132)),
+    make: text(ifd0, 0x010f),
+    model: text(ifd0, 0x0110),
+    lensModel: text(exifIFD, 0xa434),
+    gps: latitude !== undefined && longitude !== undefined
+      ? { latitude, longitude, altitude: altitude === undefined ? undefined : (number(gpsIFD, 5) === 1 ? -altitude : altitude) }
+      : undefined
+  };
+};
+
+const isJPEGFrameMarker = (marker: number): boolean => {
+  return marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+};
+
+const parseJPEG = (bytes: Uint8Array, view: DataView): ImageHeader | null => {
+  let exif: ImageExif | undefined;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+
+    const marker = bytes[offset + 1];
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) return null;
+
+    const length = view.getUint16(offset + 2);
+    const body = offset + 4;
+
+    if (marker === 0xe1 && !exif && hasBytes(bytes, EXIF_HEADER, body)) {
+      exif = parseExif(bytes.subarray(body + 6, offset + 2 + length));
+    } else if (isJPEGFrameMarker(marker) && body + 5 <= bytes.length) {
+      return { height: view.getUint16(body + 1), width: view.getUint16(body + 3), exif };
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+};
+
+const parsePNG = (bytes: Uint8Array, view: DataView): ImageHeader | null => {
+  if (bytes.length < 24 || ascii(bytes, 12, 4) !== 'IHDR') return null;
+
+  const header: ImageHeader = { width: view.getUint32(16), height: view.getUint32(20) };
+
+  // The optional eXIf chunk holds the same TIFF structure as JPEG APP1
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === 'eXIf') {
+      header.exif = parseExif(bytes.subarray(offset + 8, offset + 8 + length));
+      break;
+    }
+    if (type === 'IDAT' || type === 'IEND') break;
+    offset += 12 + length;
+  }
+
+  return header;
+};
+
+const parseWebP = (bytes: Uint8Array, view: DataView): ImageHeader | null => {
+  let header: ImageHeader | null = null;
+  let exif: ImageExif | undefined;
+
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const type = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+
+    if (type === 'VP8X' && data + 10 <= bytes.length) {
+      const read24 = (at: number) => bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+      header = { width: read24(data + 4) + 1, height: read24(data + 7) + 1 };
+    } else if (type === 'VP8 ' && !header && data + 10 <= bytes.length) {
+      header = { width: view.getUint16(data + 6, true) & 0x3fff, height: view.getUint16(data + 8, true) & 0x3fff };
+    } else if (type === 'VP8L' && !header && data + 5 <= bytes.length) {
+      const [b0, b1, b2, b3] = [bytes[data + 1], bytes[data + 2], bytes[data + 3], bytes[data + 4]];
+      header = {
+        width: 1 + (((b1 & 0x3f) << 8) | b0),
+        height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+      };
+    } else if (type === 'EXIF') {
+      const start = hasBytes(bytes, EXIF_HEADER, data) ? data + 6 : data;
+      exif = parseExif(bytes.subarray(start, data + size));
+    }
+
+    // Chunks are padded to an even length
+    offset = data + size + (size % 2);
+  }
+
+  return header && { ...header, exif };
+};
+
+/**
+ * Check whether a MIME type is a bitmap image; SVG is text and is read as such
+ */
+export const isRasterImageType = (mimeType: string): boolean => {
+  return matchesMimeType(mimeType, 'image/*') && mimeType !== 'image/svg+xml';
+};
+
+/**
+ * Read dimensions and EXIF metadata from the leading bytes of an image.
+ * Returns null for unsupported formats or when the sample is too short.
+ */
+export const parseImageHeader = (bytes: Uint8Array): ImageHeader | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (hasBytes(bytes, [0xff, 0xd8])) {
+    return parseJPEG(bytes, view);
+  }
+  if (hasBytes(bytes, [0x89, 0x50, 0x4e, 0x47])) {
+    return parsePNG(bytes, view);
+  }
+  if (ascii(bytes, 0, 4) === 'GIF8' && bytes.length >= 10) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    return parseWebP(bytes, view);
+  }
+  if (ascii(bytes, 0, 2) === 'BM' && bytes.length >= 26) {
+    // Negative heights mark top-down bitmaps
+    return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+  }
+
+  return null;
+};
+
+/**
+ * Read an image's header from a file, falling back to the whole file when
+ * the dimensions lie beyond the first sample
+ */
+export const readImageHeader = async (file: Blob, signal?: AbortSignal): Promise<ImageHeader | null> => {
+  const sample = new Uint8Array(await readBlob(file.slice(0, HEADER_SAMPLE_SIZE), signal));
+  const header = parseImageHeader(sample);
+  if (header || file.size <= HEADER_SAMPLE_SIZE) {
+    return header;
+  }
+  return parseImageHeader(new Uint8Array(await readBlob(file, signal)));
+};
+
+/**
+ * Apply the EXIF orientation: values 5 to 8 rotate the image by 90 degrees
+ */
+export const getDisplayDimensions = (header: ImageHeader): { width: number; height: number } => {
+  const rotated = (header.exif?.orientation || 1) >= 5;
+  return rotated ? { width: header.height, height: header.width } : { width: header.width, height: header.height };
+};
+
+/**
+ * Check whether images can be decoded and drawn in this environment
+ */
+export const isCanvasSupported = (): boolean => {
+  return typeof createImageBitmap === 'function' && typeof document !== 'undefined';
+};
+
+/**
+ * Fit dimensions inside a box without upscaling
+ */
+const fitWithin = (width: number, height: number, maxWidth = Infinity, maxHeight = Infinity) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * Draw a decoded image at a new size and encode it
+ */
+const drawImage = (bitmap: ImageBitmap, width: number, height: number, type: string, quality?: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')), type, quality);
+  });
+};
+
+const blobToDataURL = (blob: Blob): Promise<string> => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Read an image's dimensions and EXIF metadata and, where a canvas is
+ * available, render its thumbnail and resized copy. Re-encoded images carry
+ * no EXIF metadata.
+ */
+export const processImage = async (
+  file: File,
+  mimeType: string,
+  options: ImageProcessingOptions = {},
+  signal?: AbortSignal
+): Promise<ImageInfo> => {
+  const header = await readImageHeader(file, signal);
+  const exif = header?.exif && options.stripGPS ? { ...header.exif, gps: undefined } : header?.exif;
+  const thumbnailSize = options.thumbnailSize ?? DEFAULT_THUMBNAIL_SIZE;
+
+  if (!isCanvasSupported() || (!thumbnailSize && !options.resize)) {
+    if (!header) {
+      throw new Error(`Cannot read the dimensions of '${file.name}'`);
+    }
+    return { ...getDisplayDimensions(header), exif };
+  }
+
+  // Browsers apply the EXIF orientation when decoding, so the bitmap has display dimensions
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const info: ImageInfo = { width: bitmap.width, height: bitmap.height, exif };
+
+    if (thumbnailSize) {
+      const size = fitWithin(bitmap.width, bitmap.height, thumbnailSize, thumbnailSize);
+      // JPEG keeps photo thumbnails small; other formats may need transparency
+      const type = mimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+      info.thumbnail = await blobToDataURL(await drawImage(bitmap, size.width, size.height, type, 0.8));
+    }
+
+    if (options.resize) {
+      const { maxWidth, maxHeight, quality, type } = options.resize;
+      const size = fitWithin(bitmap.width, bitmap.height, maxWidth, maxHeight);
+      const blob = await drawImage(bitmap, size.width, size.height, type || mimeType, quality);
+      info.resized = { blob, ...size };
+    }
+
+    return info;
+  } finally {
+    bitmap.close();
+  }
+};
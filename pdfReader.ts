@@ -0,0 +1,876 @@
+/**
+ * PDF Text Reader
+ *
+ * Extracts text and document information from PDF files. Parses indirect
+ * objects (including compressed object streams), walks the page tree and
+ * interprets the text operators in each page's content streams, mapping
+ * character codes through the fonts' ToUnicode CMaps where present.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { inflateSync } from './compression';
+import { WIN_ANSI_EXTRAS } from './pdfWriter';
+
+// Types and Interfaces
+export interface PDFDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  createdAt?: Date;
+  modifiedAt?: Date;
+}
+
+export interface PDFTextContent {
+  text: string;
+  pages: string[];
+  pageCount: number;
+  info: PDFDocumentInfo;
+}
+
+interface PDFName {
+  type: 'name';
+  value: string;
+}
+
+// String contents are kept as raw bytes, one character per byte
+interface PDFString {
+  type: 'string';
+  value: string;
+}
+
+interface PDFRef {
+  type: 'ref';
+  num: number;
+}
+
+interface PDFDict {
+  type: 'dict';
+  entries: Record<string, PDFValue>;
+}
+
+interface PDFStream {
+  type: 'stream';
+  dict: PDFDict;
+  data: Uint8Array;
+}
+
+type PDFValue = number | boolean | null | PDFName | PDFString | PDFRef | PDFDict | PDFStream | PDFValue[];
+
+type PDFToken =
+  | PDFName
+  | PDFString
+  | { type: 'number'; value: number }
+  | { type: 'punct'; value: string }
+  | { type: 'keyword'; value: string };
+
+interface Lexer {
+  source: string;
+  position: number;
+}
+
+interface PDFFont {
+  codeLength: number;
+  toUnicode: Map<number, string> | null;
+  composite: boolean;
+}
+
+interface PDFPage {
+  dict: PDFDict;
+  resources: PDFDict | null;
+}
+
+interface TextBuilder {
+  parts: string[];
+  lastY: number | null;
+  moved: boolean;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const WHITESPACE = '\x00\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+
+// Form XObjects may nest; deeper nesting is treated as malformed
+const MAX_XOBJECT_DEPTH = 8;
+
+// TJ adjustments (thousandths of a text unit) wide enough to stand for a space
+const SPACE_ADJUSTMENT = -200;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Unicode characters for the WinAnsiEncoding 0x80-0x9F range
+const WIN_ANSI_DECODE: Record<number, string> = Object.fromEntries(
+  Object.entries(WIN_ANSI_EXTRAS).map(([unicode, code]) => [code, String.fromCharCode(Number(unicode))])
+);
+
+// Characters PDFDocEncoding places where Latin-1 has control codes
+const PDF_DOC_DECODE: Record<number, string> = {
+  0x18: '\u02d8', 0x19: '\u02c7', 0x1a: '\u02c6', 0x1b: '\u02d9', 0x1c: '\u02dd',
+  0x1d: '\u02db', 0x1e: '\u02da', 0x1f: '\u02dc', 0x80: '\u2022', 0x81: '\u2020',
+  0x82: '\u2021', 0x83: '\u2026', 0x84: '\u2014', 0x85: '\u2013', 0x86: '\u0192',
+  0x87: '\u2044', 0x88: '\u2039', 0x89: '\u203a', 0x8a: '\u2212', 0x8b: '\u2030',
+  0x8c: '\u201e', 0x8d: '\u201c', 0x8e: '\u201d', 0x8f: '\u2018', 0x90: '\u2019',
+  0x91: '\u201a', 0x92: '\u2122', 0x93: '\ufb01', 0x94: '\ufb02', 0x95: '\u0141',
+  0x96: '\u0152', 0x97: '\u0160', 0x98: '\u0178', 0x99: '\u017d', 0x9a: '\u0131',
+  0x9b: '\u0142', 0x9c: '\u0153', 0x9d: '\u0161', 0x9e: '\u017e', 0xa0: '\u20ac'
+};
+
+const INFO_KEYS: Array<[keyof PDFDocumentInfo, string]> = [
+  ['title', 'Title'],
+  ['author', 'Author'],
+  ['subject', 'Subject'],
+  ['keywords', 'Keywords'],
+  ['creator', 'Creator'],
+  ['producer', 'Producer']
+];
+
+/**
+ * Convert bytes to a string with one character per byte
+ */
+const toBinaryString = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...Array.from(bytes.subarray(i, i + 8192)));
+  }
+  return result;
+};
+
+const toBytes = (binary: string): Uint8Array => {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const isWhitespace = (char: string): boolean => WHITESPACE.includes(char);
+
+const isRegular = (char: string): boolean => !isWhitespace(char) && !DELIMITERS.includes(char);
+
+const skipWhitespace = (lexer: Lexer) => {
+  const { source } = lexer;
+
+  while (lexer.position < source.length) {
+    const char = source[lexer.position];
+    if (isWhitespace(char)) {
+      lexer.position++;
+    } else if (char === '%') {
+      while (lexer.position < source.length && source[lexer.position] !== '\n' && source[lexer.position] !== '\r') {
+        lexer.position++;
+      }
+    } else {
+      break;
+    }
+  }
+};
+
+/**
+ * Read a literal string, resolving escapes and balanced parentheses
+ */
+const readLiteralString = (lexer: Lexer): string => {
+  const { source } = lexer;
+  let result = '';
+  let depth = 1;
+  lexer.position++;
+
+  while (lexer.position < source.length) {
+    const char = source[lexer.position++];
+
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      if (--depth === 0) break;
+    } else if (char === '\\') {
+      const next = source[lexer.position++];
+      switch (next) {
+        case 'n': result += '\n'; continue;
+        case 'r': result += '\r'; continue;
+        case 't': result += '\t'; continue;
+        case 'b': result += '\b'; continue;
+        case 'f': result += '\f'; continue;
+        case '\r':
+          // Line continuation
+          if (source[lexer.position] === '\n') lexer.position++;
+          continue;
+        case '\n':
+          continue;
+        default:
+          if (next >= '0' && next <= '7') {
+            let octal = next;
+            while (octal.length < 3 && source[lexer.position] >= '0' && source[lexer.position] <= '7') {
+              octal += source[lexer.position++];
+            }
+            result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+          } else if (next !== undefined) {
+            result += next;
+          }
+          continue;
+      }
+    }
+
+    result += char;
+  }
+
+  return result;
+};
+
+const readHexString = (lexer: Lexer): string => {
+  const end = lexer.source.indexOf('>', lexer.position);
+  const stop = end === -1 ? lexer.source.length : end;
+  let hex = lexer.source.slice(lexer.position + 1, stop).replace(/[^0-9a-fA-F]/g, '');
+  lexer.position = stop + 1;
+
+  if (hex.length % 2 === 1) {
+    hex += '0';
+  }
+
+  let result = '';
+  for (let i = 0; i < hex.length; i += 2) {
+    result += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return result;
+};
+
+/**
+ * Read the next token, or null at the end of input
+ */
+const readToken = (lexer: Lexer): PDFToken | null => {
+  skipWhitespace(lexer);
+
+  const { source } = lexer;
+  if (lexer.position >= source.length) {
+    return null;
+  }
+
+  const char = source[lexer.position];
+
+  if (char === '(') {
+    return { type: 'string', value: readLiteralString(lexer) };
+  }
+
+  if (char === '<') {
+    if (source[lexer.position + 1] === '<') {
+      lexer.position += 2;
+      return { type: 'punct', value: '<<' };
+    }
+    return { type: 'string', value: readHexString(lexer) };
+  }
+
+  if (char === '>') {
+    lexer.position += source[lexer.position + 1] === '>' ? 2 : 1;
+    return { type: 'punct', value: '>>' };
+  }
+
+  if (char === '[' || char === ']' || char === '{' || char === '}' || char === ')') {
+    lexer.position++;
+    return { type: 'punct', value: char };
+  }
+
+  const start = char === '/' ? ++lexer.position : lexer.position;
+  while (lexer.position < source.length && isRegular(source[lexer.position])) {
+    lexer.position++;
+  }
+  const text = source.slice(start, lexer.position);
+
+  if (char === '/') {
+    return { type: 'name', value: text.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+  }
+
+  if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(text)) {
+    return { type: 'number', value: parseFloat(text) };
+  }
+
+  return { type: 'keyword', value: text };
+};
+
+/**
+ * Parse a value that starts with the given token. Keywords other than
+ * true/false/null come back as null; callers interpreting content streams
+ * handle operators before calling this.
+ */
+const parseValue = (lexer: Lexer, token: PDFToken | null): PDFValue => {
+  if (!token) {
+    return null;
+  }
+
+  switch (token.type) {
+    case 'name':
+    case 'string':
+      return token;
+
+    case 'number': {
+      // An indirect reference: "<num> <gen> R"
+      const saved = lexer.position;
+      const generation = readToken(lexer);
+      if (generation?.type === 'number') {
+        const keyword = readToken(lexer);
+        if (keyword?.type === 'keyword' && keyword.value === 'R') {
+          return { type: 'ref', num: token.value };
+        }
+      }
+      lexer.position = saved;
+      return token.value;
+    }
+
+    case 'punct':
+      if (token.value === '[') {
+        const items: PDFValue[] = [];
+        for (let next = readToken(lexer); next && !(next.type === 'punct' && next.value === ']'); next = readToken(lexer)) {
+          items.push(parseValue(lexer, next));
+        }
+        return items;
+      }
+      if (token.value === '<<') {
+        const entries: Record<string, PDFValue> = {};
+        for (let next = readToken(lexer); next && !(next.type === 'punct' && next.value === '>>'); next = readToken(lexer)) {
+          if (next.type === 'name') {
+            entries[next.value] = parseValue(lexer, readToken(lexer));
+          }
+        }
+        return { type: 'dict', entries };
+      }
+      return null;
+
+    case 'keyword':
+      if (token.value === 'true') return true;
+      if (token.value === 'false') return false;
+      return null;
+  }
+};
+
+const isDict = (value: PDFValue): value is PDFDict => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'dict';
+};
+
+const isStream = (value: PDFValue): value is PDFStream => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'stream';
+};
+
+const getName = (value: PDFValue): string | undefined => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'name' ? value.value : undefined;
+};
+
+const getString = (value: PDFValue): string | null => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'string' ? value.value : null;
+};
+
+/**
+ * Decode text strings from the document information dictionary: UTF-16BE or
+ * UTF-8 after a byte order mark, PDFDocEncoding otherwise
+ */
+const decodeTextString = (value: string): string => {
+  if (value.startsWith('\xfe\xff')) {
+    return new TextDecoder('utf-16be').decode(toBytes(value.slice(2)));
+  }
+  if (value.startsWith('\xef\xbb\xbf')) {
+    return new TextDecoder('utf-8').decode(toBytes(value.slice(3)));
+  }
+  return value.replace(/[\x18-\x1f\x80-\xa0]/g, char => PDF_DOC_DECODE[char.charCodeAt(0)] || char);
+};
+
+/**
+ * Parse a PDF date such as "D:20240131120000+01'00'"
+ */
+const parsePDFDate = (value: string): Date | undefined => {
+  const match = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone, zoneHours = '0', zoneMinutes = '0'] = match;
+  const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  const offset = (Number(zoneHours) * 60 + Number(zoneMinutes)) * 60000;
+
+  return new Date(zone === '+' ? utc - offset : zone === '-' ? utc + offset : utc);
+};
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5]
+];
+
+/**
+ * Parse a ToUnicode CMap into a map from character codes to text
+ */
+const parseToUnicode = (source: string): { map: Map<number, string>; codeLength: number | null } => {
+  const lexer: Lexer = { source, position: 0 };
+  const map = new Map<number, string>();
+  let codeLength: number | null = null;
+
+  const toCode = (bytes: string): number => {
+    let code = 0;
+    for (let i = 0; i < bytes.length; i++) {
+      code = code * 256 + bytes.charCodeAt(i);
+    }
+    return code;
+  };
+
+  const toText = (bytes: string): string => new TextDecoder('utf-16be').decode(toBytes(bytes));
+
+  const readStrings = (terminator: string, size: number, onGroup: (group: PDFValue[]) => void) => {
+    let group: PDFValue[] = [];
+    for (let token = readToken(lexer); token; token = readToken(lexer)) {
+      if (token.type === 'keyword' && token.value === terminator) break;
+      group.push(parseValue(lexer, token));
+      if (group.length === size) {
+        onGroup(group);
+        group = [];
+      }
+    }
+  };
+
+  for (let token = readToken(lexer); token; token = readToken(lexer)) {
+    if (token.type !== 'keyword') continue;
+
+    if (token.value === 'begincodespacerange') {
+      readStrings('endcodespacerange', 2, ([low]) => {
+        const bytes = getString(low);
+        if (bytes && codeLength === null) codeLength = bytes.length;
+      });
+    } else if (token.value === 'beginbfchar') {
+      readStrings('endbfchar', 2, ([source, target]) => {
+        const code = getString(source);
+        const text = getString(target);
+        if (code !== null && text !== null) map.set(toCode(code), toText(text));
+      });
+    } else if (token.value === 'beginbfrange') {
+      readStrings('endbfrange', 3, ([low, high, target]) => {
+        const lowBytes = getString(low);
+        const highBytes = getString(high);
+        if (lowBytes === null || highBytes === null) return;
+
+        const first = toCode(lowBytes);
+        const last = Math.min(toCode(highBytes), first + 0xffff);
+
+        if (Array.isArray(target)) {
+          target.forEach((item, index) => {
+            const text = getString(item);
+            if (text !== null && first + index <= last) map.set(first + index, toText(text));
+          });
+          return;
+        }
+
+        // Successive codes map to successive values of the target's last code unit
+        const base = getString(target);
+        if (base === null || base.length < 2) return;
+        const prefix = toText(base.slice(0, -2));
+        const start = toCode(base.slice(-2));
+        for (let code = first; code <= last; code++) {
+          map.set(code, prefix + String.fromCharCode(start + code - first));
+        }
+      });
+    }
+  }
+
+  return { map, codeLength };
+};
+
+/**
+ * Decode ASCII base-85 data, ending at the "~>" marker
+ */
+const decodeASCII85 = (text: string): Uint8Array => {
+  const body = text.replace(/^\s*<~/, '').split('~>')[0].replace(/\s/g, '');
+  const bytes: number[] = [];
+  let group: number[] = [];
+
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84);
+    const value = group.reduce((sum, digit) => sum * 85 + digit, 0);
+    for (let i = 0; i < count; i++) {
+      bytes.push((value >>> (24 - i * 8)) & 0xff);
+    }
+    group = [];
+  };
+
+  for (const char of body) {
+    if (char === 'z' && group.length === 0) {
+      bytes.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 1) flush(group.length - 1);
+
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Extract the text, page count and document information from a PDF file
+ */
+export const extractPDFText = (data: Uint8Array): PDFTextContent => {
+  const source = toBinaryString(data);
+
+  // The header may be preceded by junk, but only within the first kilobyte
+  const header = source.indexOf('%PDF-');
+  if (header === -1 || header > 1024) {
+    throw new Error('Not a PDF document');
+  }
+
+  const objects = new Map<number, PDFValue>();
+  const trailer: Record<string, PDFValue> = {};
+
+  // Scan the file for "<num> <gen> obj" rather than trusting the xref table,
+  // which is frequently damaged. Later definitions replace earlier ones, as
+  // incremental updates are appended to the file.
+  const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = objectPattern.exec(source)) !== null) {
+    const lexer: Lexer = { source, position: match.index + match[0].length };
+
+    try {
+      let value = parseValue(lexer, readToken(lexer));
+      skipWhitespace(lexer);
+
+      if (isDict(value) && source.startsWith('stream', lexer.position)) {
+        let start = lexer.position + 6;
+        if (source[start] === '\r') start++;
+        if (source[start] === '\n') start++;
+
+        // Trust a direct /Length only when "endstream" follows it
+        const length = value.entries.Length;
+        let end = typeof length === 'number' && /^\s*endstream/.test(source.slice(start + length, start + length + 16))
+          ? start + length
+          : source.indexOf('endstream', start);
+        if (end === -1) end = source.length;
+
+        const streamEnd = end;
+        if (typeof length !== 'number' || end !== start + length) {
+          while (end > start && (source[end - 1] === '\n' || source[end - 1] === '\r')) end--;
+        }
+
+        value = { type: 'stream', dict: value, data: data.subarray(start, end) };
+        lexer.position = streamEnd + 9;
+
+        if (getName(value.dict.entries.Type) === 'XRef') {
+          Object.assign(trailer, value.dict.entries);
+        }
+      }
+
+      objects.set(Number(match[1]), value);
+      objectPattern.lastIndex = Math.max(objectPattern.lastIndex, lexer.position);
+    } catch {
+      // Skip malformed objects and keep scanning
+    }
+  }
+
+  const trailerPattern = /trailer\s*<</g;
+  while ((match = trailerPattern.exec(source)) !== null) {
+    const lexer: Lexer = { source, position: match.index + 7 };
+    const value = parseValue(lexer, readToken(lexer));
+    if (isDict(value)) {
+      Object.assign(trailer, value.entries);
+    }
+  }
+
+  if (trailer.Encrypt) {
+    throw new Error('Encrypted PDF documents are not supported');
+  }
+
+  const resolve = (value: PDFValue | undefined, depth = 0): PDFValue => {
+    if (value === undefined) return null;
+    if (typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'ref') {
+      return depth < 16 ? resolve(objects.get(value.num), depth + 1) : null;
+    }
+    return value;
+  };
+
+  const resolveDict = (value: PDFValue | undefined): PDFDict | null => {
+    const resolved = resolve(value);
+    if (isStream(resolved)) return resolved.dict;
+    return isDict(resolved) ? resolved : null;
+  };
+
+  const decodeStream = (stream: PDFStream): Uint8Array | null => {
+    const filter = resolve(stream.dict.entries.Filter);
+    const filters = (Array.isArray(filter) ? filter : [filter]).map(item => getName(resolve(item))).filter(Boolean);
+    let bytes = stream.data;
+
+    for (const name of filters) {
+      try {
+        if (name === 'FlateDecode' || name === 'Fl') {
+          bytes = inflateSync(bytes);
+        } else if (name === 'ASCIIHexDecode' || name === 'AHx') {
+          bytes = toBytes(readHexString({ source: '<' + toBinaryString(bytes), position: 0 }));
+        } else if (name === 'ASCII85Decode' || name === 'A85') {
+          bytes = decodeASCII85(toBinaryString(bytes));
+        } else {
+          // Image codecs and LZW carry no text worth extracting
+          return null;
+        }
+      } catch {
+        return null;
+      }
+    }
+
+    return bytes;
+  };
+
+  // Objects packed into compressed object streams (PDF 1.5+)
+  objects.forEach(value => {
+    if (!isStream(value) || getName(value.dict.entries.Type) !== 'ObjStm') return;
+
+    const decoded = decodeStream(value);
+    const count = resolve(value.dict.entries.N);
+    const first = resolve(value.dict.entries.First);
+    if (!decoded || typeof count !== 'number' || typeof first !== 'number') return;
+
+    const content = toBinaryString(decoded);
+    const header: Lexer = { source: content, position: 0 };
+    for (let i = 0; i < count; i++) {
+      const num = readToken(header);
+      const offset = readToken(header);
+      if (num?.type !== 'number' || offset?.type !== 'number') break;
+      if (!objects.has(num.value)) {
+        const lexer: Lexer = { source: content, position: first + offset.value };
+        objects.set(num.value, parseValue(lexer, readToken(lexer)));
+      }
+    }
+  });
+
+  // Page tree, with inherited resources
+  const pages: PDFPage[] = [];
+  const visited = new Set<PDFDict>();
+
+  const walk = (node: PDFDict | null, inheritedResources: PDFDict | null) => {
+    if (!node || visited.has(node)) return;
+    visited.add(node);
+
+    const resources = resolveDict(node.entries.Resources) || inheritedResources;
+    const kids = resolve(node.entries.Kids);
+
+    if (Array.isArray(kids)) {
+      kids.forEach(kid => walk(resolveDict(kid), resources));
+    } else {
+      pages.push({ dict: node, resources });
+    }
+  };
+
+  const catalog = resolveDict(trailer.Root);
+  walk(resolveDict(catalog?.entries.Pages), null);
+
+  // Without a usable catalog, fall back to every page object in file order
+  if (pages.length === 0) {
+    Array.from(objects.keys()).sort((a, b) => a - b).forEach(num => {
+      const value = objects.get(num)!;
+      if (isDict(value) && getName(value.entries.Type) === 'Page') {
+        pages.push({ dict: value, resources: resolveDict(value.entries.Resources) });
+      }
+    });
+  }
+
+  const fontCache = new Map<PDFDict, PDFFont>();
+
+  const loadFont = (fontDict: PDFDict): PDFFont => {
+    const cached = fontCache.get(fontDict);
+    if (cached) return cached;
+
+    const composite = getName(fontDict.entries.Subtype) === 'Type0';
+    const font: PDFFont = { codeLength: composite ? 2 : 1, toUnicode: null, composite };
+
+    const toUnicode = resolve(fontDict.entries.ToUnicode);
+    if (isStream(toUnicode)) {
+      const decoded = decodeStream(toUnicode);
+      if (decoded) {
+        const { map, codeLength } = parseToUnicode(toBinaryString(decoded));
+        font.toUnicode = map;
+        font.codeLength = codeLength || font.codeLength;
+      }
+    }
+
+    fontCache.set(fontDict, font);
+    return font;
+  };
+
+  const decodeText = (font: PDFFont | null, bytes: string): string => {
+    const codeLength = font?.codeLength || 1;
+    let result = '';
+
+    for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+      let code = 0;
+      for (let j = 0; j < codeLength; j++) {
+        code = code * 256 + bytes.charCodeAt(i + j);
+      }
+
+      const mapped = font?.toUnicode?.get(code);
+      if (mapped !== undefined) {
+        result += mapped;
+      } else if (!font?.composite && codeLength === 1) {
+        // Simple fonts without a CMap: assume WinAnsiEncoding
+        result += WIN_ANSI_DECODE[code] || String.fromCharCode(code);
+      }
+    }
+
+    return result;
+  };
+
+  const interpret = (content: string, resources: PDFDict | null, builder: TextBuilder, depth: number) => {
+    const lexer: Lexer = { source: content, position: 0 };
+    const fonts = resolveDict(resources?.entries.Font);
+    const xObjects = resolveDict(resources?.entries.XObject);
+    let operands: PDFValue[] = [];
+    let font: PDFFont | null = null;
+    let leading = 0;
+    let lineMatrix: Matrix = IDENTITY;
+    let textMatrix: Matrix = IDENTITY;
+
+    const moveTo = (matrix: Matrix) => {
+      lineMatrix = textMatrix = matrix;
+      builder.moved = true;
+    };
+
+    const nextLine = () => moveTo(multiply([1, 0, 0, 1, 0, -leading], lineMatrix));
+
+    const show = (bytes: string) => {
+      const text = decodeText(font, bytes);
+      if (!text) return;
+
+      const y = textMatrix[5];
+      const previous = builder.parts[builder.parts.length - 1] || '';
+      if (builder.lastY !== null && Math.abs(y - builder.lastY) > 1) {
+        if (!previous.endsWith('\n')) builder.parts.push('\n');
+      } else if (builder.moved && previous && !/\s$/.test(previous)) {
+        builder.parts.push(' ');
+      }
+
+      builder.parts.push(text);
+      builder.lastY = y;
+      builder.moved = false;
+    };
+
+    const number = (index: number): number => {
+      const value = operands[index];
+      return typeof value === 'number' ? value : 0;
+    };
+
+    for (let token = readToken(lexer); token; token = readToken(lexer)) {
+      if (token.type !== 'keyword' || token.value === 'true' || token.value === 'false' || token.value === 'null') {
+        operands.push(parseValue(lexer, token));
+        continue;
+      }
+
+      switch (token.value) {
+        case 'BT':
+          lineMatrix = textMatrix = IDENTITY;
+          builder.moved = true;
+          break;
+        case 'Tf': {
+          const fontDict = resolveDict(fonts?.entries[getName(operands[0]) || '']);
+          font = fontDict ? loadFont(fontDict) : null;
+          break;
+        }
+        case 'TL':
+          leading = number(0);
+          break;
+        case 'Td':
+          moveTo(multiply([1, 0, 0, 1, number(0), number(1)], lineMatrix));
+          break;
+        case 'TD':
+          leading = -number(1);
+          moveTo(multiply([1, 0, 0, 1, number(0), number(1)], lineMatrix));
+          break;
+        case 'Tm':
+          moveTo([number(0), number(1), number(2), number(3), number(4), number(5)]);
+          break;
+        case 'T*':
+          nextLine();
+          break;
+        case 'Tj': {
+          const text = getString(operands[0]);
+          if (text !== null) show(text);
+          break;
+        }
+        case "'":
+        case '"': {
+          nextLine();
+          const text = getString(operands[operands.length - 1]);
+          if (text !== null) show(text);
+          break;
+        }
+        case 'TJ': {
+          const items = operands[0];
+          if (Array.isArray(items)) {
+            items.forEach(item => {
+              const text = getString(item);
+              if (text !== null) {
+                show(text);
+              } else if (typeof item === 'number' && item < SPACE_ADJUSTMENT) {
+                builder.moved = true;
+              }
+            });
+          }
+          break;
+        }
+        case 'Do': {
+          const xObject = resolve(xObjects?.entries[getName(operands[0]) || '']);
+          if (isStream(xObject) && getName(xObject.dict.entries.Subtype) === 'Form' && depth < MAX_XOBJECT_DEPTH) {
+            const decoded = decodeStream(xObject);
+            if (decoded) {
+              interpret(toBinaryString(decoded), resolveDict(xObject.dict.entries.Resources) || resources, builder, depth + 1);
+            }
+          }
+          break;
+        }
+        case 'ID': {
+          // Inline image data is binary; skip to the closing EI
+          const end = /\sEI(?=[\s]|$)/g;
+          end.lastIndex = lexer.position + 1;
+          const found = end.exec(content);
+          lexer.position = found ? found.index + found[0].length : content.length;
+          break;
+        }
+      }
+
+      operands = [];
+    }
+  };
+
+  const pageTexts = pages.map(page => {
+    const contents = resolve(page.dict.entries.Contents);
+    const streams = (Array.isArray(contents) ? contents.map(item => resolve(item)) : [contents]).filter(isStream);
+    const content = streams
+      .map(stream => decodeStream(stream))
+      .filter((bytes): bytes is Uint8Array => bytes !== null)
+      .map(toBinaryString)
+      .join('\n');
+
+    const builder: TextBuilder = { parts: [], lastY: null, moved: false };
+    interpret(content, page.resources, builder, 0);
+
+    return builder.parts.join('').split('\n').map(line => line.trim()).join('\n').trim();
+  });
+
+  const info: PDFDocumentInfo = {};
+  const infoDict = resolveDict(trailer.Info);
+  if (infoDict) {
+    INFO_KEYS.forEach(([key, name]) => {
+      const value = getString(resolve(infoDict.entries[name]));
+      const text = value === null ? '' : decodeTextString(value).trim();
+      if (text) {
+        (info as Record<string, string>)[key] = text;
+      }
+    });
+
+    const created = getString(resolve(infoDict.entries.CreationDate));
+    const modified = getString(resolve(infoDict.entries.ModDate));
+    if (created) info.createdAt = parsePDFDate(created);
+    if (modified) info.modifiedAt = parsePDFDate(modified);
+  }
+
+  return {
+    text: pageTexts.join('\n\n'),
+    pages: pageTexts,
+    pageCount: pages.length,
+    info
+  };
+};
@@ -0,0 +1,589 @@
+/**
+ * PDF Writer
+ *
+ * A dependency-free PDF 1.4 writer used by useReportGenerator to build reports
+ * entirely on the client. Lays out report metadata as a header block and renders
+ * record arrays as paginated tables using the standard Helvetica fonts.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { ColumnAlign, formatColumnValue, ReportColumns, resolveColumns } from './reportColumns';
+import type { ReportData, ReportMetadata, ReportStyling } from './useReportGenerator';
+
+// Types and Interfaces
+export interface PDFDocumentOptions {
+  metadata?: ReportMetadata;
+  styling?: ReportStyling;
+  columns?: ReportColumns;
+  locale?: string | string[];
+}
+
+type RGB = [number, number, number];
+
+interface PDFPalette {
+  background?: RGB;
+  text: RGB;
+  muted: RGB;
+  border: RGB;
+  primary: RGB;
+  stripe?: RGB;
+  headerFill?: RGB;
+  headerText: RGB;
+}
+
+interface PDFTable {
+  columns: string[];
+  align: ColumnAlign[];
+  rows: string[][];
+}
+
+// Page geometry (A4 portrait, in points)
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const FOOTER_HEIGHT = 24;
+const CELL_PADDING = 4;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+
+// Rows sampled when measuring natural column widths
+const MAX_MEASURED_ROWS = 200;
+
+// Helvetica and Helvetica-Bold advance widths for ASCII 32-126 (1/1000 em)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Unicode code points that WinAnsiEncoding places in the 0x80-0x9F range
+export const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85,
+  0x2020: 0x86, 0x2021: 0x87, 0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a,
+  0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92,
+  0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97,
+  0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c,
+  0x017e: 0x9e, 0x0178: 0x9f
+};
+
+const DEFAULT_PRIMARY: RGB = [0.231, 0.51, 0.965];
+
+/**
+ * Parse a CSS hex color (#rgb or #rrggbb) into PDF color components
+ */
+const parseColor = (color: string | undefined, fallback: RGB): RGB => {
+  const match = color?.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) {
+    return fallback;
+  }
+
+  const hex = match[1].length === 3
+    ? match[1].split('').map(c => c + c).join('')
+    : match[1];
+
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16) / 255) as RGB;
+};
+
+/**
+ * Convert a CSS font size (px, pt, em, rem) into points
+ */
+const parseFontSize = (fontSize: string | undefined): number => {
+  const match = fontSize?.trim().match(/^(\d*\.?\d+)\s*(px|pt|r?em)?$/i);
+  if (!match) {
+    return 10.5;
+  }
+
+  const value = parseFloat(match[1]);
+  switch (match[2]?.toLowerCase()) {
+    case 'pt':
+      return value;
+    case 'em':
+    case 'rem':
+      return value * 12;
+    default:
+      return value * 0.75;
+  }
+};
+
+/**
+ * Resolve the color palette for the requested theme
+ */
+const getPalette = (styling: ReportStyling): PDFPalette => {
+  const primary = parseColor(styling.primaryColor, DEFAULT_PRIMARY);
+
+  switch (styling.theme) {
+    case 'dark':
+      return {
+        background: parseColor('#1f2937', primary),
+        text: parseColor('#e5e7eb', primary),
+        muted: parseColor('#9ca3af', primary),
+        border: parseColor('#4b5563', primary),
+        primary,
+        stripe: parseColor('#374151', primary),
+        headerFill: primary,
+        headerText: [1, 1, 1]
+      };
+    case 'minimal':
+      return {
+        text: parseColor('#111827', primary),
+        muted: parseColor('#6b7280', primary),
+        border: parseColor('#e5e7eb', primary),
+        primary,
+        headerText: primary
+      };
+    default:
+      return {
+        text: parseColor('#374151', primary),
+        muted: parseColor('#6b7280', primary),
+        border: parseColor('#d1d5db', primary),
+        primary,
+        stripe: parseColor('#f3f4f6', primary),
+        headerFill: primary,
+        headerText: [1, 1, 1]
+      };
+  }
+};
+
+/**
+ * Map text onto WinAnsiEncoding, replacing unsupported characters with '?'
+ */
+const toWinAnsi = (text: string): string => {
+  let result = '';
+
+  for (const char of text.normalize('NFC')) {
+    const code = char.codePointAt(0) as number;
+    if (code === 9) {
+      result += ' ';
+    } else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+      result += char;
+    } else if (WIN_ANSI_EXTRAS[code]) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[code]);
+    } else if (code >= 32) {
+      result += '?';
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Measure WinAnsi-encoded text in points
+ */
+const measureText = (text: string, fontSize: number, bold = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+
+  return (total / 1000) * fontSize;
+};
+
+/**
+ * Break text into lines that fit within maxWidth, splitting long words if needed
+ */
+const wrapText = (text: string, maxWidth: number, fontSize: number, bold = false): string[] => {
+  const lines: string[] = [];
+
+  text.split(/\r\n|\r|\n/).forEach(paragraph => {
+    let line = '';
+
+    toWinAnsi(paragraph).split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, fontSize, bold) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+
+      if (line) {
+        lines.push(line);
+      }
+
+      // Hard-break words that are wider than the column on their own
+      line = '';
+      for (const char of word) {
+        if (line && measureText(line + char, fontSize, bold) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+/**
+ * Escape a string for use inside a PDF literal string
+ */
+const escapePDFString = (text: string): string => {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+};
+
+/**
+ * Write a document information value as a PDF text string. Info strings are
+ * read as PDFDocEncoding, so anything beyond printable ASCII is written as
+ * UTF-16BE hex with a byte order mark.
+ */
+const infoString = (value: string): string => {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `(${escapePDFString(value)})`;
+  }
+
+  const text = value.normalize('NFC');
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).toUpperCase().padStart(4, '0');
+  }
+  return `<${hex}>`;
+};
+
+/**
+ * Format a number for PDF content streams
+ */
+const num = (value: number): string => {
+  return Number(value.toFixed(2)).toString();
+};
+
+const colorOp = (color: RGB, stroke = false): string => {
+  return `${color.map(num).join(' ')} ${stroke ? 'RG' : 'rg'}`;
+};
+
+/**
+ * Format a single value for display in a table cell
+ */
+const formatCellValue = (value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    return value.toLocaleString();
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+};
+
+const isRecord = (value: any): value is ReportData => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+};
+
+/**
+ * Normalize report data into columns and stringified rows, following the column schema
+ */
+const toTable = (data: ReportData | ReportData[], options: PDFDocumentOptions): PDFTable => {
+  if (!Array.isArray(data)) {
+    const columns = resolveColumns([data], options.columns, options.locale);
+    return {
+      columns: ['Field', 'Value'],
+      align: ['left', 'left'],
+      rows: columns.map(column => [column.label, formatColumnValue(column, column.getValue(data), data)])
+    };
+  }
+
+  if (data.every(isRecord)) {
+    const columns = resolveColumns(data, options.columns, options.locale);
+    return {
+      columns: columns.map(column => column.label),
+      align: columns.map(column => column.align),
+      rows: data.map(item => columns.map(column => formatColumnValue(column, column.getValue(item), item)))
+    };
+  }
+
+  return {
+    columns: ['Value'],
+    align: ['left'],
+    rows: data.map(item => [formatCellValue(item)])
+  };
+};
+
+/**
+ * Distribute the available width between columns, giving narrow columns their
+ * natural width and sharing the remainder evenly among the wide ones
+ */
+const computeColumnWidths = (table: PDFTable, fontSize: number): number[] => {
+  const natural = table.columns.map((column, index) => {
+    let width = measureText(toWinAnsi(column), fontSize, true);
+    const sampleSize = Math.min(table.rows.length, MAX_MEASURED_ROWS);
+
+    for (let i = 0; i < sampleSize; i++) {
+      const longestLine = table.rows[i][index]
+        .split(/\r\n|\r|\n/)
+        .reduce((max, line) => Math.max(max, measureText(toWinAnsi(line), fontSize)), 0);
+      width = Math.max(width, longestLine);
+    }
+
+    return Math.min(width + CELL_PADDING * 2, CONTENT_WIDTH);
+  });
+
+  const widths: number[] = new Array(natural.length).fill(0);
+  let pending = natural.map((_, index) => index);
+  let remaining = CONTENT_WIDTH;
+
+  for (;;) {
+    const share = remaining / pending.length;
+    const fitting = pending.filter(index => natural[index] <= share);
+    if (fitting.length === 0 || fitting.length === pending.length) {
+      break;
+    }
+
+    fitting.forEach(index => {
+      widths[index] = natural[index];
+      remaining -= natural[index];
+    });
+    pending = pending.filter(index => natural[index] > share);
+  }
+
+  const pendingTotal = pending.reduce((sum, index) => sum + natural[index], 0);
+  if (pendingTotal <= remaining) {
+    // Everything fits: stretch columns proportionally to fill the page width
+    const assigned = widths.reduce((sum, width) => sum + width, 0) + pendingTotal;
+    return natural.map(width => (width / assigned) * CONTENT_WIDTH);
+  }
+
+  pending.forEach(index => {
+    widths[index] = remaining / pending.length;
+  });
+
+  return widths;
+};
+
+/**
+ * Format a date as a PDF date string (D:YYYYMMDDHHmmss)
+ */
+const toPDFDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+/**
+ * Assemble page content streams into a complete PDF file
+ */
+const serializeDocument = (pages: string[][], metadata?: ReportMetadata): Uint8Array => {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  const info = [
+    '/Producer (react-file-processor-hooks)',
+    `/CreationDate (${toPDFDate(metadata?.createdAt || new Date())})`
+  ];
+  if (metadata?.title) info.push(`/Title ${infoString(metadata.title)}`);
+  if (metadata?.author) info.push(`/Author ${infoString(metadata.author)}`);
+  if (metadata?.description) info.push(`/Subject ${infoString(metadata.description)}`);
+  if (metadata?.tags?.length) info.push(`/Keywords ${infoString(metadata.tags.join(', '))}`);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  objects.push(`<< ${info.join(' ')} >>`);
+
+  pages.forEach((ops, index) => {
+    const stream = ops.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  // Every character is below 0x100, so string offsets equal byte offsets
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i);
+  }
+
+  return bytes;
+};
+
+/**
+ * Render report data and metadata into a paginated PDF document
+ */
+export const generatePDFDocument = (
+  data: ReportData | ReportData[],
+  options: PDFDocumentOptions = {}
+): Uint8Array => {
+  const styling = options.styling || {};
+  const metadata = options.metadata;
+  const palette = getPalette(styling);
+  const fontSize = parseFontSize(styling.fontSize);
+  const lineHeight = fontSize * 1.25;
+
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let cursor = MARGIN;
+
+  const startPage = () => {
+    ops = [];
+    pages.push(ops);
+    cursor = MARGIN;
+    if (palette.background) {
+      ops.push(`${colorOp(palette.background)} 0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)} re f`);
+    }
+  };
+
+  // Positions are tracked from the top of the page and flipped for PDF space
+  const fillRect = (x: number, top: number, width: number, height: number, color: RGB) => {
+    ops.push(`${colorOp(color)} ${num(x)} ${num(PAGE_HEIGHT - top - height)} ${num(width)} ${num(height)} re f`);
+  };
+
+  const strokeRect = (x: number, top: number, width: number, height: number, color: RGB) => {
+    ops.push(`${colorOp(color, true)} 0.5 w ${num(x)} ${num(PAGE_HEIGHT - top - height)} ${num(width)} ${num(height)} re S`);
+  };
+
+  const drawLine = (x1: number, x2: number, top: number, color: RGB, width: number) => {
+    ops.push(`${colorOp(color, true)} ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - top)} m ${num(x2)} ${num(PAGE_HEIGHT - top)} l S`);
+  };
+
+  const drawText = (text: string, x: number, top: number, size: number, color: RGB, bold = false) => {
+    const baseline = PAGE_HEIGHT - top - size * 0.8;
+    ops.push(
+      `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${colorOp(color)} ` +
+      `${num(x)} ${num(baseline)} Td (${escapePDFString(text)}) Tj ET`
+    );
+  };
+
+  const writeParagraph = (text: string, size: number, color: RGB, bold = false) => {
+    wrapText(text, CONTENT_WIDTH, size, bold).forEach(line => {
+      if (cursor + size * 1.25 > CONTENT_BOTTOM) {
+        startPage();
+      }
+      drawText(line, MARGIN, cursor, size, color, bold);
+      cursor += size * 1.25;
+    });
+  };
+
+  startPage();
+
+  // Metadata header
+  writeParagraph(metadata?.title || 'Report', fontSize * 2, palette.primary, true);
+  cursor += fontSize * 0.5;
+
+  if (metadata?.description) {
+    writeParagraph(metadata.description, fontSize, palette.muted);
+  }
+  writeParagraph(`Generated on: ${new Date().toLocaleString()}`, fontSize * 0.9, palette.muted);
+  if (metadata?.author) {
+    writeParagraph(`Author: ${metadata.author}`, fontSize * 0.9, palette.muted);
+  }
+  if (metadata?.version) {
+    writeParagraph(`Version: ${metadata.version}`, fontSize * 0.9, palette.muted);
+  }
+
+  cursor += fontSize * 0.75;
+  drawLine(MARGIN, PAGE_WIDTH - MARGIN, cursor, palette.primary, 2);
+  cursor += fontSize * 1.5;
+
+  // Data table
+  const table = toTable(data, options);
+
+  if (table.rows.length === 0) {
+    writeParagraph('No data', fontSize, palette.muted);
+  } else {
+    const widths = computeColumnWidths(table, fontSize);
+    const headerLines = table.columns.map((column, index) =>
+      wrapText(column, widths[index] - CELL_PADDING * 2, fontSize, true)
+    );
+    const headerHeight = Math.max(...headerLines.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+
+    // A single row may never be taller than one page below the repeated header
+    const maxRowLines = Math.max(1, Math.floor(
+      (CONTENT_BOTTOM - MARGIN - headerHeight - CELL_PADDING * 2) / lineHeight
+    ));
+
+    const drawRow = (cells: string[][], height: number, fill: RGB | undefined, color: RGB, bold: boolean) => {
+      let x = MARGIN;
+      if (fill) {
+        fillRect(MARGIN, cursor, CONTENT_WIDTH, height, fill);
+      }
+
+      cells.forEach((lines, index) => {
+        strokeRect(x, cursor, widths[index], height, palette.border);
+        lines.forEach((line, lineIndex) => {
+          const free = widths[index] - CELL_PADDING * 2 - measureText(line, fontSize, bold);
+          const offset = table.align[index] === 'right' ? free : table.align[index] === 'center' ? free / 2 : 0;
+          drawText(line, x + CELL_PADDING + Math.max(0, offset), cursor + CELL_PADDING + lineIndex * lineHeight, fontSize, color, bold);
+        });
+        x += widths[index];
+      });
+
+      cursor += height;
+    };
+
+    const drawHeaderRow = () => {
+      drawRow(headerLines, headerHeight, palette.headerFill, palette.headerText, true);
+    };
+
+    if (cursor + headerHeight + lineHeight + CELL_PADDING * 2 > CONTENT_BOTTOM) {
+      startPage();
+    }
+    drawHeaderRow();
+
+    table.rows.forEach((row, rowIndex) => {
+      const cells = row.map((value, index) => {
+        const lines = wrapText(value, widths[index] - CELL_PADDING * 2, fontSize);
+        if (lines.length > maxRowLines) {
+          lines.length = maxRowLines;
+          lines[maxRowLines - 1] += '...';
+        }
+        return lines;
+      });
+      const height = Math.max(...cells.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+
+      if (cursor + height > CONTENT_BOTTOM) {
+        startPage();
+        drawHeaderRow();
+      }
+
+      drawRow(cells, height, rowIndex % 2 === 1 ? palette.stripe : undefined, palette.text, false);
+    });
+  }
+
+  // Page footers are written last, once the total page count is known
+  pages.forEach((pageOps, index) => {
+    ops = pageOps;
+    const label = `Page ${index + 1} of ${pages.length}`;
+    const size = fontSize * 0.8;
+    drawText(label, PAGE_WIDTH - MARGIN - measureText(label, size), PAGE_HEIGHT - MARGIN - size, size, palette.muted);
+  });
+
+  return serializeDocument(pages, metadata);
+};
@@ -0,0 +1,502 @@
+/**
+ * Persistence
+ *
+ * Storage adapters keep processed files and generated reports across reloads:
+ * in IndexedDB, or in memory for the lifetime of the page where IndexedDB is
+ * unavailable. Persistent collections sit on top of an adapter, evicting the
+ * least recently used entries to stay within size and count limits and
+ * sharing changes with other tabs over a BroadcastChannel.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+// Types and Interfaces
+export interface StoredRecord<T = unknown> {
+  key: string;
+  value: T;
+  size: number; // estimated, in bytes
+  storedAt: number;
+  accessedAt: number;
+}
+
+export interface StorageAdapter {
+  get: (collection: string, key: string) => Promise<StoredRecord | undefined>;
+  getAll: (collection: string) => Promise<StoredRecord[]>;
+  put: (collection: string, record: StoredRecord) => Promise<void>;
+  delete: (collection: string, keys: string[]) => Promise<void>;
+  clear: (collection: string) => Promise<void>;
+}
+
+export interface IndexedDBAdapterOptions {
+  databaseName?: string;
+  storeName?: string;
+}
+
+// The hooks reopen their collection when adapter, maxBytes, maxEntries or sync
+// change; onEvict and onError may change freely
+export interface PersistenceOptions {
+  adapter: StorageAdapter;
+  maxBytes?: number; // per collection
+  maxEntries?: number;
+  sync?: boolean | string; // share changes with other tabs; a string names the BroadcastChannel
+  onEvict?: (keys: string[]) => void;
+  onError?: (error: unknown) => void;
+}
+
+// 'evict' only removes entries from storage; 'delete' removes them everywhere
+export type CollectionChange<T> =
+  | { type: 'put'; record: StoredRecord<T> }
+  | { type: 'delete'; keys: string[] }
+  | { type: 'evict'; keys: string[] }
+  | { type: 'clear' };
+
+export interface PersistentCollection<T> {
+  load: () => Promise<T[]>;
+  save: (key: string, value: T) => Promise<string[]>;
+  touch: (key: string) => void;
+  remove: (keys: string[]) => Promise<void>;
+  clear: () => Promise<void>;
+  subscribe: (listener: (change: CollectionChange<T>) => void) => () => void;
+  close: () => void;
+}
+
+interface SyncMessage<T> {
+  collection: string;
+  change: CollectionChange<T>;
+}
+
+interface EntryInfo {
+  size: number;
+  storedAt: number;
+  accessedAt: number;
+}
+
+const DEFAULT_CHANNEL = 'file-processor-hooks';
+
+// Access times are kept in one small record beside the collection and written
+// this long after the last lookup, instead of rewriting each looked-up record
+const ACCESS_WRITE_DELAY = 2000;
+const ACCESS_TIMES_KEY = 'accessedAt';
+
+// Ids carry a per-page prefix so they stay unique among restored and synced entries
+const SESSION_ID = Math.random().toString(36).slice(2, 8);
+
+let recordCounter = 0;
+
+/**
+ * Create an id that does not collide with ids created before a reload or in another tab
+ */
+export const createRecordId = (prefix: string): string => `${prefix}-${SESSION_ID}-${++recordCounter}`;
+
+/**
+ * Estimate the bytes a value takes in storage: strings as UTF-16, binary data by length
+ */
+const estimateSize = (value: unknown, seen: Set<object> = new Set()): number => {
+  if (typeof value === 'string') {
+    return value.length * 2;
+  }
+  if (typeof value === 'number') {
+    return 8;
+  }
+  if (typeof value === 'boolean') {
+    return 4;
+  }
+  if (value === null || typeof value !== 'object') {
+    return 0;
+  }
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return value.size;
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return value.byteLength;
+  }
+  if (value instanceof Date) {
+    return 8;
+  }
+  if (seen.has(value)) {
+    return 0;
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.reduce((size: number, item) => size + estimateSize(item, seen), 0);
+  }
+  return Object.entries(value).reduce((size, [key, item]) => size + key.length * 2 + estimateSize(item, seen), 0);
+};
+
+const isQuotaError = (error: unknown): boolean => {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+};
+
+/**
+ * Keep records in memory; they last as long as the adapter, so nothing
+ * survives a reload
+ */
+export const createMemoryStorageAdapter = (): StorageAdapter => {
+  const collections = new Map<string, Map<string, StoredRecord>>();
+
+  const getCollection = (collection: string) => {
+    let records = collections.get(collection);
+    if (!records) {
+      records = new Map();
+      collections.set(collection, records);
+    }
+    return records;
+  };
+
+  return {
+    get: async (collection, key) => getCollection(collection).get(key),
+    getAll: async (collection) => Array.from(getCollection(collection).values()),
+    put: async (collection, record) => {
+      getCollection(collection).set(record.key, record);
+    },
+    delete: async (collection, keys) => {
+      const records = getCollection(collection);
+      keys.forEach(key => records.delete(key));
+    },
+    clear: async (collection) => {
+      collections.delete(collection);
+    }
+  };
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction was aborted'));
+  });
+};
+
+/**
+ * Keep records in IndexedDB, falling back to memory where it is unavailable.
+ * All collections share one object store keyed by [collection, key].
+ */
+export const createIndexedDBAdapter = (options: IndexedDBAdapterOptions = {}): StorageAdapter => {
+  const databaseName = options.databaseName || 'file-processor-hooks';
+  const storeName = options.storeName || 'records';
+  const fallback = createMemoryStorageAdapter();
+  let database: Promise<IDBDatabase | null> | null = null;
+
+  const open = (): Promise<IDBDatabase | null> => {
+    if (!database) {
+      database = new Promise<IDBDatabase | null>((resolve) => {
+        try {
+          if (typeof indexedDB === 'undefined') {
+            resolve(null);
+            return;
+          }
+
+          const request = indexedDB.open(databaseName, 1);
+          request.onupgradeneeded = () => {
+            request.result.createObjectStore(storeName, { keyPath: ['collection', 'key'] });
+          };
+          request.onsuccess = () => {
+            const db = request.result;
+            // Let other tabs upgrade the database; the next call reopens it
+            db.onversionchange = () => {
+              db.close();
+              database = null;
+            };
+            resolve(db);
+          };
+          // Opening fails in some private browsing modes
+          request.onerror = () => resolve(null);
+        } catch {
+          resolve(null);
+        }
+      });
+    }
+    return database;
+  };
+
+  // Arrays sort after strings, so this range covers every key of one collection
+  const collectionRange = (collection: string) => IDBKeyRange.bound([collection], [collection, []]);
+
+  const toRecord = (stored: StoredRecord & { collection: string }): StoredRecord => ({
+    key: stored.key,
+    value: stored.value,
+    size: stored.size,
+    storedAt: stored.storedAt,
+    accessedAt: stored.accessedAt
+  });
+
+  return {
+    get: async (collection, key) => {
+      const db = await open();
+      if (!db) {
+        return fallback.get(collection, key);
+      }
+      const stored = await requestResult(db.transaction(storeName).objectStore(storeName).get([collection, key]));
+      return stored ? toRecord(stored) : undefined;
+    },
+    getAll: async (collection) => {
+      const db = await open();
+      if (!db) {
+        return fallback.getAll(collection);
+      }
+      const stored = await requestResult(db.transaction(storeName).objectStore(storeName).getAll(collectionRange(collection)));
+      return stored.map(toRecord);
+    },
+    put: async (collection, record) => {
+      const db = await open();
+      if (!db) {
+        return fallback.put(collection, record);
+      }
+      const transaction = db.transaction(storeName, 'readwrite');
+      transaction.objectStore(storeName).put({ ...record, collection });
+      await transactionDone(transaction);
+    },
+    delete: async (collection, keys) => {
+      const db = await open();
+      if (!db) {
+        return fallback.delete(collection, keys);
+      }
+      const transaction = db.transaction(storeName, 'readwrite');
+      const store = transaction.objectStore(storeName);
+      keys.forEach(key => store.delete([collection, key]));
+      await transactionDone(transaction);
+    },
+    clear: async (collection) => {
+      const db = await open();
+      if (!db) {
+        return fallback.clear(collection);
+      }
+      const transaction = db.transaction(storeName, 'readwrite');
+      transaction.objectStore(storeName).delete(collectionRange(collection));
+      await transactionDone(transaction);
+    }
+  };
+};
+
+/**
+ * Open a named collection on the configured adapter. Saving evicts the least
+ * recently used entries once the collection exceeds maxBytes or maxEntries,
+ * or when the browser reports its storage quota exceeded. Errors go to
+ * onError; the returned promises always resolve.
+ */
+export const createPersistentCollection = <T>(name: string, options: PersistenceOptions): PersistentCollection<T> => {
+  const { adapter } = options;
+  const maxBytes = options.maxBytes ?? Infinity;
+  const maxEntries = options.maxEntries ?? Infinity;
+  const accessCollection = `${name}:access`;
+  const entries = new Map<string, EntryInfo>();
+  const listeners = new Set<(change: CollectionChange<T>) => void>();
+  let loaded: Promise<StoredRecord<T>[]> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  let accessTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const channel = options.sync && typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(typeof options.sync === 'string' ? options.sync : DEFAULT_CHANNEL)
+    : null;
+
+  // Run storage operations one at a time, so eviction sees the sizes of earlier saves
+  const enqueue = <R>(task: () => Promise<R>, fallbackResult: R): Promise<R> => {
+    const run = queue.then(task).catch((error) => {
+      options.onError?.(error);
+      return fallbackResult;
+    });
+    queue = run;
+    return run;
+  };
+
+  const broadcast = (change: CollectionChange<T>) => {
+    try {
+      channel?.postMessage({ collection: name, change } as SyncMessage<T>);
+    } catch (error) {
+      // Values that cannot be cloned are still stored, just not shared
+      options.onError?.(error);
+    }
+  };
+
+  const trackRecord = (record: StoredRecord<T>) => {
+    entries.set(record.key, { size: record.size, storedAt: record.storedAt, accessedAt: record.accessedAt });
+  };
+
+  const loadRecords = (): Promise<StoredRecord<T>[]> => {
+    if (!loaded) {
+      loaded = Promise.all([adapter.getAll(name), adapter.get(accessCollection, ACCESS_TIMES_KEY)]).then(([records, access]) => {
+        const accessTimes = (access?.value || {}) as Record<string, number>;
+        return (records as StoredRecord<T>[]).map((record) => {
+          const latest = { ...record, accessedAt: Math.max(record.accessedAt, accessTimes[record.key] || 0) };
+          trackRecord(latest);
+          return latest;
+        });
+      }, (error) => {
+        // Retry on the next operation rather than failing every later save
+        loaded = null;
+        throw error;
+      });
+    }
+    return loaded;
+  };
+
+  const getOldestKeys = (exceptKey: string): string[] => {
+    return Array.from(entries.entries())
+      .filter(([key]) => key !== exceptKey)
+      .sort((a, b) => a[1].accessedAt - b[1].accessedAt)
+      .map(([key]) => key);
+  };
+
+  /**
+   * Pick the least recently used entries to drop until the limits are met again
+   */
+  const selectEvictions = (exceptKey: string): string[] => {
+    let totalBytes = Array.from(entries.values()).reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.size;
+    const evicted: string[] = [];
+
+    for (const key of getOldestKeys(exceptKey)) {
+      if (totalBytes <= maxBytes && count <= maxEntries) {
+        break;
+      }
+      totalBytes -= entries.get(key)!.size;
+      count--;
+      evicted.push(key);
+    }
+    return evicted;
+  };
+
+  const deleteEntries = async (keys: string[]) => {
+    if (keys.length > 0) {
+      await adapter.delete(name, keys);
+      keys.forEach(key => entries.delete(key));
+    }
+  };
+
+  const writeAccessTimes = () => enqueue(async () => {
+    const accessTimes = Object.fromEntries(Array.from(entries, ([key, entry]) => [key, entry.accessedAt]));
+    await adapter.put(accessCollection, {
+      key: ACCESS_TIMES_KEY,
+      value: accessTimes,
+      size: estimateSize(accessTimes),
+      storedAt: Date.now(),
+      accessedAt: Date.now()
+    });
+  }, undefined);
+
+  const flushAccessTimes = () => {
+    if (accessTimer !== null) {
+      clearTimeout(accessTimer);
+      accessTimer = null;
+      void writeAccessTimes();
+    }
+  };
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<SyncMessage<T>>) => {
+      const { collection, change } = event.data;
+      if (collection !== name) {
+        return;
+      }
+
+      if (change.type === 'put') {
+        trackRecord(change.record);
+      } else if (change.type === 'delete' || change.type === 'evict') {
+        change.keys.forEach(key => entries.delete(key));
+      } else {
+        entries.clear();
+      }
+      listeners.forEach(listener => listener(change));
+    };
+  }
+
+  return {
+    load: () => enqueue(async () => {
+      const records = await loadRecords();
+      return [...records]
+        .sort((a, b) => a.storedAt - b.storedAt)
+        .map(record => record.value);
+    }, []),
+
+    save: (key, value) => enqueue(async () => {
+      await loadRecords();
+
+      const now = Date.now();
+      const previous = entries.get(key);
+      const record: StoredRecord<T> = {
+        key,
+        value,
+        size: estimateSize(value),
+        storedAt: previous?.storedAt ?? now,
+        accessedAt: now
+      };
+
+      // Too large to keep at all: the entry lives on in memory only
+      if (record.size > maxBytes) {
+        await deleteEntries(previous ? [key] : []);
+        return [];
+      }
+
+      trackRecord(record);
+      const evicted = selectEvictions(key);
+      await deleteEntries(evicted);
+
+      for (;;) {
+        try {
+          await adapter.put(name, record);
+          break;
+        } catch (error) {
+          const oldest = isQuotaError(error) ? getOldestKeys(key)[0] : undefined;
+          if (oldest === undefined) {
+            entries.delete(key);
+            throw error;
+          }
+          await deleteEntries([oldest]);
+          evicted.push(oldest);
+        }
+      }
+
+      broadcast({ type: 'put', record });
+      if (evicted.length > 0) {
+        broadcast({ type: 'evict', keys: evicted });
+        options.onEvict?.(evicted);
+      }
+      return evicted;
+    }, []),
+
+    touch: (key) => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return;
+      }
+      entry.accessedAt = Date.now();
+      if (accessTimer === null) {
+        accessTimer = setTimeout(flushAccessTimes, ACCESS_WRITE_DELAY);
+      }
+    },
+
+    remove: (keys) => enqueue(async () => {
+      await deleteEntries(keys);
+      broadcast({ type: 'delete', keys });
+    }, undefined),
+
+    clear: () => enqueue(async () => {
+      await adapter.clear(name);
+      await adapter.clear(accessCollection);
+      entries.clear();
+      broadcast({ type: 'clear' });
+    }, undefined),
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    close: () => {
+      flushAccessTimes();
+      listeners.clear();
+      channel?.close();
+    }
+  };
+};
@@ -0,0 +1,14 @@
+/**
+ * Processing Worker
+ *
+ * Web Worker entry point for file processing and report generation. Bundle
+ * this file as a worker and pass a factory that creates it as the `worker`
+ * option of useFileProcessor or useReportGenerator.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { registerTaskWorker, WorkerScope } from './workerTasks';
+
+registerTaskWorker(self as unknown as WorkerScope);
@@ -0,0 +1,215 @@
+/**
+ * Report Columns
+ *
+ * Resolves the `columns` schema of ReportOptions into a single description
+ * that every report writer follows: which fields appear and in what order,
+ * their headers, declared types, alignment and Intl-based display formatting.
+ * Without a schema, columns are the union of the records' own keys.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import type { ReportData } from './useReportGenerator';
+
+// Types and Interfaces
+export type ColumnType = 'string' | 'number' | 'currency' | 'percent' | 'date' | 'datetime' | 'boolean';
+
+export type ColumnAlign = 'left' | 'center' | 'right';
+
+export interface ReportColumn {
+  key: string; // field name or dotted path, e.g. 'customer.address.city'
+  label?: string;
+  type?: ColumnType;
+  align?: ColumnAlign;
+  currency?: string; // ISO 4217 code for 'currency' columns, default 'USD'
+  decimals?: number; // fixed fraction digits for 'number', 'currency' and 'percent'
+  dateStyle?: 'short' | 'medium' | 'long' | 'full';
+  timeStyle?: 'short' | 'medium' | 'long' | 'full'; // for 'datetime' columns
+  booleanLabels?: [string, string]; // default ['Yes', 'No']
+  format?: (value: any, row: ReportData) => string;
+}
+
+export type ReportColumns = Array<string | ReportColumn>;
+
+export interface ResolvedColumn {
+  key: string;
+  label: string;
+  type?: ColumnType;
+  align: ColumnAlign;
+  definition: ReportColumn;
+  // Read the column's value from a row, converted to its declared type where possible
+  getValue: (row: ReportData) => any;
+  // Display text for a value; only set when the column declares a type or formatter
+  format?: (value: any, row: ReportData) => string;
+  // Display text from the declared type alone, for values such as subtotals that have no row
+  formatValue?: (value: any) => string;
+}
+
+const NUMERIC_TYPES: ColumnType[] = ['number', 'currency', 'percent'];
+
+const DEFAULT_BOOLEAN_LABELS: [string, string] = ['Yes', 'No'];
+
+const isRecord = (value: any): value is ReportData => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+};
+
+/**
+ * Read a field by name, or by dotted path when no field has the full name
+ */
+export const getFieldValue = (row: ReportData, path: string): any => {
+  if (!isRecord(row)) {
+    return undefined;
+  }
+  if (path in row || !path.includes('.')) {
+    return row[path];
+  }
+
+  return path.split('.').reduce<any>((value, segment) => (isRecord(value) || Array.isArray(value) ? (value as any)[segment] : undefined), row);
+};
+
+/**
+ * Convert a value to a column type, leaving values that do not convert unchanged
+ */
+export const coerceValue = (value: any, type: ColumnType | undefined): any => {
+  if (value === null || value === undefined || value === '' || !type) {
+    return value;
+  }
+
+  if (NUMERIC_TYPES.includes(type)) {
+    if (typeof value === 'number') {
+      return value;
+    }
+    const number = typeof value === 'string' ? Number(value.trim()) : NaN;
+    return Number.isFinite(number) ? number : value;
+  }
+
+  if (type === 'date' || type === 'datetime') {
+    if (value instanceof Date) {
+      return value;
+    }
+    const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : value;
+  }
+
+  if (type === 'boolean') {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    const text = String(value).trim().toLowerCase();
+    if (['true', 'yes', '1'].includes(text)) return true;
+    if (['false', 'no', '0'].includes(text)) return false;
+    return value;
+  }
+
+  return typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Build the display formatter for a column's declared type
+ */
+const createTypeFormatter = (
+  column: ReportColumn,
+  locale?: string | string[]
+): ((value: any) => string) => {
+  const fractionDigits = column.decimals === undefined
+    ? {}
+    : { minimumFractionDigits: column.decimals, maximumFractionDigits: column.decimals };
+
+  const fallback = (value: any) => (value instanceof Date ? value.toLocaleString(locale) : String(value));
+
+  switch (column.type) {
+    case 'number':
+    case 'currency':
+    case 'percent': {
+      const formatter = new Intl.NumberFormat(locale, {
+        ...(column.type === 'currency' ? { style: 'currency', currency: column.currency || 'USD' } : {}),
+        ...(column.type === 'percent' ? { style: 'percent' } : {}),
+        ...fractionDigits
+      });
+      return value => (typeof value === 'number' ? formatter.format(value) : fallback(value));
+    }
+
+    case 'date':
+    case 'datetime': {
+      const formatter = new Intl.DateTimeFormat(locale, column.type === 'date'
+        ? { dateStyle: column.dateStyle || 'medium' }
+        : { dateStyle: column.dateStyle || 'medium', timeStyle: column.timeStyle || 'short' });
+      return value => (value instanceof Date ? formatter.format(value) : fallback(value));
+    }
+
+    case 'boolean': {
+      const [yes, no] = column.booleanLabels || DEFAULT_BOOLEAN_LABELS;
+      return value => (typeof value === 'boolean' ? (value ? yes : no) : fallback(value));
+    }
+
+    default:
+      return fallback;
+  }
+};
+
+/**
+ * Resolve a column schema for a set of rows. Without a schema, every key of
+ * every row becomes an untyped column, in order of first appearance.
+ */
+export const resolveColumns = (
+  rows: ReportData[],
+  columns?: ReportColumns,
+  locale?: string | string[]
+): ResolvedColumn[] => {
+  const definitions: ReportColumn[] = columns?.length
+    ? columns.map(column => (typeof column === 'string' ? { key: column } : column))
+    : Array.from(new Set(rows.filter(isRecord).flatMap(Object.keys)), key => ({ key }));
+
+  return definitions.map(definition => {
+    const type = definition.type;
+    const formatType = type || definition.format ? createTypeFormatter(definition, locale) : undefined;
+
+    return {
+      key: definition.key,
+      label: definition.label ?? definition.key,
+      type,
+      align: definition.align || (type && NUMERIC_TYPES.includes(type) ? 'right' : type === 'boolean' ? 'center' : 'left'),
+      definition,
+      getValue: row => coerceValue(getFieldValue(row, definition.key), type),
+      format: formatType && ((value, row) => {
+        if (value === null || value === undefined || value === '') {
+          return '';
+        }
+        return definition.format ? definition.format(value, row) : formatType(value);
+      }),
+      formatValue: type && formatType
+    };
+  });
+};
+
+/**
+ * Display text for a value without a declared type
+ */
+export const formatPlainValue = (value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toLocaleString();
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Display text for a column value; untyped columns fall back to plain stringification
+ */
+export const formatColumnValue = (column: ResolvedColumn, value: any, row: ReportData): string => {
+  return column.format ? column.format(value, row) : formatPlainValue(value);
+};
+
+/**
+ * Project a row onto the schema, keyed by column label with typed values
+ */
+export const projectRow = (columns: ResolvedColumn[], row: ReportData): ReportData => {
+  return columns.reduce<ReportData>((projected, column) => {
+    projected[column.label] = column.getValue(row);
+    return projected;
+  }, {});
+};
@@ -0,0 +1,231 @@
+/**
+ * Report Grouping
+ *
+ * Groups report rows by one or more fields and computes aggregates (sum,
+ * average, min, max, count and distinct count) for every group and for the
+ * whole dataset. Renderers use the result to print grouped sections,
+ * subtotals and a grand-total footer.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { coerceValue, formatColumnValue, formatPlainValue, getFieldValue, ResolvedColumn } from './reportColumns';
+import type { ReportData } from './useReportGenerator';
+
+// Types and Interfaces
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'distinct';
+
+export interface ReportAggregate {
+  fn: AggregateFunction;
+  field?: string; // field name or dotted path; 'count' without a field counts rows
+  label?: string;
+}
+
+export interface ReportGrouping {
+  by: string | string[]; // nested in order: the first field forms the outer groups
+  aggregates?: ReportAggregate[]; // default [{ fn: 'count' }]
+  subtotals?: boolean; // default true
+  grandTotal?: boolean; // default true
+}
+
+export interface AggregateResult {
+  fn: AggregateFunction;
+  field?: string;
+  label: string;
+  value: number | Date | null;
+}
+
+export interface ReportGroup {
+  field: string;
+  label: string; // the grouped field's column label
+  value: any;
+  depth: number;
+  rows: ReportData[];
+  groups: ReportGroup[]; // empty for the innermost grouping level
+  summary: AggregateResult[];
+}
+
+export interface GroupedReportData {
+  groups: ReportGroup[];
+  total: AggregateResult[];
+  aggregates: ReportAggregate[]; // in the order of every summary's results
+}
+
+export const AGGREGATE_FUNCTION_NAMES: Record<AggregateFunction, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  min: 'Min',
+  max: 'Max',
+  count: 'Count',
+  distinct: 'Distinct'
+};
+
+const DEFAULT_AGGREGATES: ReportAggregate[] = [{ fn: 'count' }];
+
+const isEmpty = (value: any): boolean => {
+  return value === null || value === undefined || value === '';
+};
+
+/**
+ * Identity of a value for grouping and distinct counts
+ */
+const valueKey = (value: any): string => {
+  if (isEmpty(value)) return '';
+  if (value instanceof Date) return `date:${value.getTime()}`;
+  if (typeof value === 'object') return `json:${JSON.stringify(value)}`;
+  return `${typeof value}:${value}`;
+};
+
+const findColumn = (columns: ResolvedColumn[], field?: string): ResolvedColumn | undefined => {
+  return field === undefined ? undefined : columns.find(column => column.key === field);
+};
+
+/**
+ * Read a field, converted to its column's declared type when the schema has it
+ */
+const readField = (row: ReportData, field: string, columns: ResolvedColumn[]): any => {
+  const column = findColumn(columns, field);
+  return column ? column.getValue(row) : getFieldValue(row, field);
+};
+
+/**
+ * Compute aggregates over a set of rows
+ */
+export const aggregateRows = (
+  rows: ReportData[],
+  aggregates: ReportAggregate[] = DEFAULT_AGGREGATES,
+  columns: ResolvedColumn[] = []
+): AggregateResult[] => {
+  return aggregates.map(aggregate => {
+    const { fn, field } = aggregate;
+    const column = findColumn(columns, field);
+    const label = aggregate.label
+      ?? (field === undefined ? AGGREGATE_FUNCTION_NAMES[fn] : `${AGGREGATE_FUNCTION_NAMES[fn]} of ${column?.label ?? field}`);
+    const values = field === undefined ? [] : rows.map(row => readField(row, field, columns)).filter(value => !isEmpty(value));
+
+    let value: number | Date | null = null;
+
+    switch (fn) {
+      case 'count':
+        value = field === undefined ? rows.length : values.length;
+        break;
+
+      case 'distinct':
+        value = new Set(values.map(valueKey)).size;
+        break;
+
+      case 'sum':
+      case 'avg': {
+        const numbers = values.map(item => coerceValue(item, 'number')).filter(item => typeof item === 'number');
+        const sum = numbers.reduce((total, item) => total + item, 0);
+        value = fn === 'sum' ? sum : numbers.length > 0 ? sum / numbers.length : null;
+        break;
+      }
+
+      case 'min':
+      case 'max': {
+        // Dates compare by time and keep their type; other values compare as numbers
+        const comparable = values
+          .map(item => (item instanceof Date ? item : coerceValue(item, 'number')))
+          .filter(item => (item instanceof Date ? !isNaN(item.getTime()) : typeof item === 'number'));
+        value = comparable.reduce<number | Date | null>((best, item) => {
+          if (best === null) return item;
+          return (fn === 'min' ? item.valueOf() < best.valueOf() : item.valueOf() > best.valueOf()) ? item : best;
+        }, null);
+        break;
+      }
+    }
+
+    return { fn, field, label, value };
+  });
+};
+
+/**
+ * Group rows by the grouping fields, in order of first appearance, with
+ * aggregates for every group and for all rows
+ */
+export const groupReportData = (
+  rows: ReportData[],
+  grouping: ReportGrouping,
+  columns: ResolvedColumn[] = []
+): GroupedReportData => {
+  const fields = Array.isArray(grouping.by) ? grouping.by : [grouping.by];
+  const aggregates = grouping.aggregates?.length ? grouping.aggregates : DEFAULT_AGGREGATES;
+
+  const buildGroups = (groupRows: ReportData[], depth: number): ReportGroup[] => {
+    if (depth >= fields.length) {
+      return [];
+    }
+
+    const field = fields[depth];
+    const buckets = new Map<string, { value: any; rows: ReportData[] }>();
+
+    groupRows.forEach(row => {
+      const value = readField(row, field, columns);
+      const key = valueKey(value);
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.rows.push(row);
+      } else {
+        buckets.set(key, { value, rows: [row] });
+      }
+    });
+
+    return Array.from(buckets.values(), bucket => ({
+      field,
+      label: findColumn(columns, field)?.label ?? field,
+      value: bucket.value,
+      depth,
+      rows: bucket.rows,
+      groups: buildGroups(bucket.rows, depth + 1),
+      summary: grouping.subtotals === false ? [] : aggregateRows(bucket.rows, aggregates, columns)
+    }));
+  };
+
+  return {
+    groups: buildGroups(rows, 0),
+    total: grouping.grandTotal === false ? [] : aggregateRows(rows, aggregates, columns),
+    aggregates
+  };
+};
+
+/**
+ * Display text for a group's value, formatted like its column
+ */
+export const formatGroupValue = (group: ReportGroup, columns: ResolvedColumn[] = []): string => {
+  const column = findColumn(columns, group.field);
+  const text = column ? formatColumnValue(column, group.value, group.rows[0]) : formatPlainValue(group.value);
+
+  return text || '(empty)';
+};
+
+/**
+ * Display text for an aggregate; sums and extremes are formatted like their column's type
+ */
+export const formatAggregate = (
+  result: AggregateResult,
+  columns: ResolvedColumn[] = [],
+  locale?: string | string[]
+): string => {
+  const { value } = result;
+  if (value === null) {
+    return '';
+  }
+
+  const column = findColumn(columns, result.field);
+  if (column?.formatValue && result.fn !== 'count' && result.fn !== 'distinct') {
+    return column.formatValue(value);
+  }
+
+  return value instanceof Date
+    ? value.toLocaleString(locale)
+    : new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value);
+};
+
+/**
+ * Full label of a group, e.g. "Region: EU"
+ */
+export const describeGroup = (group: ReportGroup, columns: ResolvedColumn[] = []): string => {
+  return `${group.label}: ${formatGroupValue(group, columns)}`;
+};
@@ -0,0 +1,289 @@
+/**
+ * Report Renderers
+ *
+ * Pure functions that turn report data into JSON, CSV, HTML, text, PDF and
+ * XLSX content. They hold no React state, so the report generator hook can
+ * run them on the main thread or inside a Web Worker.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { generateCSVDocument } from './csvWriter';
+import { generateHTMLDocument } from './htmlWriter';
+import { generatePDFDocument } from './pdfWriter';
+import { generateXLSXWorkbook, isReportSheets, ReportSheets } from './xlsxWriter';
+import { formatColumnValue, projectRow, resolveColumns, ResolvedColumn } from './reportColumns';
+import {
+  AggregateResult,
+  describeGroup,
+  formatAggregate,
+  groupReportData,
+  ReportGroup,
+  ReportGrouping
+} from './reportGrouping';
+import { renderTemplate } from './templateEngine';
+import type { ReportData, ReportOptions, ReportStyling } from './useReportGenerator';
+
+// Default styling options
+export const DEFAULT_STYLING: ReportStyling = {
+  theme: 'light',
+  primaryColor: '#3b82f6',
+  fontFamily: 'system-ui, -apple-system, sans-serif',
+  fontSize: '14px'
+};
+
+const isRecord = (value: any): value is ReportData => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+};
+
+/**
+ * Project records onto the column schema, keyed by column label
+ */
+const projectData = (data: any, options: ReportOptions): any => {
+  if (Array.isArray(data)) {
+    if (!data.every(isRecord)) {
+      return data;
+    }
+    const columns = resolveColumns(data, options.columns, options.locale);
+    return data.map(row => projectRow(columns, row));
+  }
+
+  if (options.sheets && isReportSheets(data)) {
+    return Object.fromEntries(Object.entries(data).map(([name, rows]) => [name, projectData(rows, options)]));
+  }
+
+  return isRecord(data) ? projectRow(resolveColumns([data], options.columns, options.locale), data) : data;
+};
+
+/**
+ * Nest records under their groups, with each group's summary keyed by aggregate label
+ */
+const groupData = (data: ReportData[], grouping: ReportGrouping, options: ReportOptions): ReportData => {
+  const columns = resolveColumns(data, options.columns, options.locale);
+  const grouped = groupReportData(data, grouping, columns);
+  const summarize = (results: AggregateResult[]) => Object.fromEntries(results.map(result => [result.label, result.value]));
+
+  const serialize = (groups: ReportGroup[]): ReportData[] => groups.map(group => ({
+    field: group.label,
+    value: group.value,
+    ...(group.groups.length > 0
+      ? { groups: serialize(group.groups) }
+      : { rows: options.columns?.length ? group.rows.map(row => projectRow(columns, row)) : group.rows }),
+    ...(group.summary.length > 0 ? { summary: summarize(group.summary) } : {})
+  }));
+
+  return {
+    groups: serialize(grouped.groups),
+    ...(grouped.total.length > 0 ? { total: summarize(grouped.total) } : {})
+  };
+};
+
+/**
+ * Convert data to JSON format
+ */
+export const generateJSON = (data: ReportData, options: ReportOptions): string => {
+  const grouped = options.grouping && Array.isArray(data) && data.every(isRecord);
+  const reportContent = {
+    metadata: options.metadata,
+    data: grouped
+      ? groupData(data as ReportData[], options.grouping as ReportGrouping, options)
+      : options.columns?.length ? projectData(data, options) : data,
+    generatedAt: new Date().toISOString()
+  };
+  
+  return JSON.stringify(reportContent, null, 2);
+};
+
+/**
+ * Convert data to CSV format in the configured dialect
+ */
+export const generateCSV = (data: ReportData[], options: ReportOptions): string => {
+  return generateCSVDocument(data, {
+    columns: options.columns,
+    locale: options.locale,
+    grouping: options.grouping,
+    csv: options.csv
+  });
+};
+
+/**
+ * Generate HTML report with styling; all report values are escaped
+ */
+export const generateHTML = (data: ReportData, options: ReportOptions): string => {
+  if (options.template) {
+    return renderTemplate(
+      options.template,
+      { metadata: options.metadata, data, generatedAt: new Date() },
+      { escape: 'html', ...options.templateOptions }
+    );
+  }
+
+  return generateHTMLDocument(data, {
+    metadata: options.metadata,
+    styling: { ...DEFAULT_STYLING, ...options.styling },
+    html: options.html,
+    columns: options.columns,
+    locale: options.locale,
+    grouping: options.grouping
+  });
+};
+
+/**
+ * Render the title block that opens a plain text report
+ */
+export const renderTextHeader = (options: Pick<ReportOptions, 'metadata'>): string => {
+  const metadata = options.metadata;
+  let content = '';
+  
+  if (metadata?.title) {
+    content += `${metadata.title}\n`;
+    content += '='.repeat(metadata.title.length) + '\n\n';
+  }
+  
+  if (metadata?.description) {
+    content += `${metadata.description}\n\n`;
+  }
+  
+  content += `Generated on: ${new Date().toLocaleString()}\n`;
+  if (metadata?.author) {
+    content += `Author: ${metadata.author}\n`;
+  }
+
+  return content + '\n';
+};
+
+/**
+ * Render one record of a plain text report
+ */
+export const renderTextRecord = (item: ReportData, recordNumber: number, columns: ResolvedColumn[], indent = ''): string => {
+  const fields = columns
+    .map(column => `${indent}  ${column.label}: ${formatColumnValue(column, column.getValue(item), item)}\n`)
+    .join('');
+
+  return `${indent}Record ${recordNumber}:\n${fields}\n`;
+};
+
+/**
+ * Generate plain text report
+ */
+export const generateText = (data: ReportData, options: ReportOptions): string => {
+  if (options.template) {
+    return renderTemplate(
+      options.template,
+      { metadata: options.metadata, data, generatedAt: new Date() },
+      { escape: 'none', ...options.templateOptions }
+    );
+  }
+
+  let content = renderTextHeader(options);
+  
+  // Convert data to readable text format
+  if (Array.isArray(data)) {
+    const columns = resolveColumns(data, options.columns, options.locale);
+    let recordNumber = 0;
+
+    const writeRecord = (item: ReportData, indent: string) => {
+      content += renderTextRecord(item, ++recordNumber, columns, indent);
+    };
+
+    const writeSummary = (title: string, results: AggregateResult[], indent: string) => {
+      if (results.length === 0) {
+        return;
+      }
+      content += `${indent}${title}\n`;
+      results.forEach(result => {
+        content += `${indent}  ${result.label}: ${formatAggregate(result, columns, options.locale)}\n`;
+      });
+      content += '\n';
+    };
+
+    // Each grouping level indents its records and subtotals by two spaces
+    const writeGroups = (groups: ReportGroup[], indent: string) => {
+      groups.forEach(group => {
+        const title = describeGroup(group, columns);
+        content += `${indent}${title}\n`;
+        if (group.groups.length > 0) {
+          writeGroups(group.groups, `${indent}  `);
+        } else {
+          group.rows.forEach(item => writeRecord(item, `${indent}  `));
+        }
+        writeSummary(`Subtotal ${title}`, group.summary, `${indent}  `);
+      });
+    };
+
+    if (options.grouping) {
+      const grouped = groupReportData(data, options.grouping, columns);
+      writeGroups(grouped.groups, '');
+      writeSummary('Total', grouped.total, '');
+    } else {
+      data.forEach(item => writeRecord(item, ''));
+    }
+  } else if (options.columns?.length) {
+    resolveColumns([data], options.columns, options.locale).forEach(column => {
+      content += `${column.label}: ${formatColumnValue(column, column.getValue(data), data)}\n`;
+    });
+  } else {
+    content += JSON.stringify(data, null, 2);
+  }
+  
+  return content;
+};
+
+/**
+ * Generate PDF report with metadata header and paginated tables
+ */
+export const generatePDF = (data: ReportData | ReportData[], options: ReportOptions): Uint8Array => {
+  return generatePDFDocument(data, {
+    metadata: options.metadata,
+    styling: { ...DEFAULT_STYLING, ...options.styling },
+    columns: options.columns,
+    locale: options.locale
+  });
+};
+
+/**
+ * Generate XLSX workbook, one sheet per entry when given a sheet map
+ */
+export const generateXLSX = (data: ReportData | ReportData[] | ReportSheets, options: ReportOptions): Uint8Array => {
+  return generateXLSXWorkbook(data, {
+    metadata: options.metadata,
+    sheets: options.sheets,
+    columns: options.columns,
+    locale: options.locale
+  });
+};
+
+/**
+ * Render report content for a single format
+ */
+export const renderReportContent = (
+  data: ReportData | ReportData[] | ReportSheets,
+  options: ReportOptions
+): { content: string | Uint8Array; mimeType: string } => {
+  switch (options.format) {
+    case 'json':
+      return { content: generateJSON(data as ReportData, options), mimeType: 'application/json' };
+
+    case 'csv':
+      return { content: generateCSV(data as ReportData[], options), mimeType: 'text/csv' };
+
+    case 'html':
+      return { content: generateHTML(data as ReportData, options), mimeType: 'text/html' };
+
+    case 'txt':
+      return { content: generateText(data as ReportData, options), mimeType: 'text/plain' };
+
+    case 'pdf':
+      return { content: generatePDF(data, options), mimeType: 'application/pdf' };
+
+    case 'xlsx':
+      return {
+        content: generateXLSX(data, options),
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      };
+
+    default:
+      throw new Error(`Unsupported format: ${options.format}`);
+  }
+};
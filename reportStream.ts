@@ -0,0 +1,281 @@
+/**
+ * Report Streams
+ *
+ * Renders very large datasets as CSV, NDJSON, plain text or HTML without
+ * building the report in memory. Rows are read in batches from arrays,
+ * iterables, async iterables or paged fetchers, written through a
+ * ReadableStream and optionally gzipped on the way. Progress is reported in
+ * rows, and an AbortSignal stops both rendering and the data source.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { createGzipStream } from './compression';
+import { createCSVRowWriter } from './csvWriter';
+import { createHTMLRowWriter } from './htmlWriter';
+import { projectRow, resolveColumns } from './reportColumns';
+import { DEFAULT_STYLING, renderTextHeader, renderTextRecord } from './reportRenderers';
+import type { RenderedReport } from './workerTasks';
+import type { ReportData, ReportOptions } from './useReportGenerator';
+
+// Types and Interfaces
+export type StreamReportFormat = 'csv' | 'ndjson' | 'txt' | 'html';
+
+// Return an empty page, null or undefined once there are no more rows
+export type ReportPageFetcher = (page: number, signal?: AbortSignal) => Promise<ReportData[] | null | undefined>;
+
+export type ReportSource = ReportData[] | Iterable<ReportData> | AsyncIterable<ReportData> | ReportPageFetcher;
+
+export interface StreamReportOptions extends Omit<ReportOptions, 'format' | 'sheets' | 'template' | 'templateOptions' | 'grouping'> {
+  format: StreamReportFormat;
+  signal?: AbortSignal;
+  batchSize?: number; // rows rendered per chunk, default 1000
+  totalRows?: number; // expected row count, for percentages with iterables and fetchers
+  onProgress?: (rowsProcessed: number, totalRows?: number) => void;
+}
+
+export interface StreamedReport extends RenderedReport {
+  rowsProcessed: number;
+}
+
+// Text written before the first row, for every row and after the last row
+export interface ReportRowWriter {
+  start: string;
+  row: (row: ReportData) => string;
+  end: string;
+}
+
+interface BatchReader {
+  read: () => Promise<ReportData[] | null>;
+  cancel: () => Promise<void>;
+}
+
+export const STREAM_MIME_TYPES: Record<StreamReportFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+  txt: 'text/plain',
+  html: 'text/html'
+};
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+// Pending Blob parts are merged into one Blob past this size, so the browser can page them out
+const BLOB_FLUSH_BYTES = 16 * 1024 * 1024;
+
+const ABORT_MESSAGE = 'Operation was aborted';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new Error(ABORT_MESSAGE);
+  }
+};
+
+/**
+ * Let the page handle input and repaint between batches
+ */
+const yieldToEventLoop = (): Promise<void> => {
+  return new Promise(resolve => setTimeout(resolve, 0));
+};
+
+/**
+ * Read a report source in batches of rows
+ */
+const createBatchReader = (source: ReportSource, batchSize: number, signal?: AbortSignal): BatchReader => {
+  if (typeof source === 'function') {
+    let page = 0;
+    let finished = false;
+
+    return {
+      read: async () => {
+        if (finished) {
+          return null;
+        }
+        const rows = await source(page++, signal);
+        finished = !rows || rows.length === 0;
+        return finished ? null : (rows as ReportData[]);
+      },
+      cancel: async () => {
+        finished = true;
+      }
+    };
+  }
+
+  if (Array.isArray(source)) {
+    let offset = 0;
+
+    return {
+      read: async () => {
+        if (offset >= source.length) {
+          return null;
+        }
+        offset += batchSize;
+        return source.slice(offset - batchSize, offset);
+      },
+      cancel: async () => {
+        offset = source.length;
+      }
+    };
+  }
+
+  const iterator = Symbol.asyncIterator in source
+    ? (source as AsyncIterable<ReportData>)[Symbol.asyncIterator]()
+    : (source as Iterable<ReportData>)[Symbol.iterator]();
+  let finished = false;
+
+  return {
+    read: async () => {
+      const batch: ReportData[] = [];
+      while (!finished && batch.length < batchSize) {
+        const result = await iterator.next();
+        if (result.done) {
+          finished = true;
+        } else {
+          batch.push(result.value);
+        }
+      }
+      return batch.length > 0 ? batch : null;
+    },
+    cancel: async () => {
+      if (!finished) {
+        finished = true;
+        await iterator.return?.();
+      }
+    }
+  };
+};
+
+/**
+ * Create the row writer for a format, taking default columns from the sample rows
+ */
+const createRowWriter = (sample: ReportData[], options: StreamReportOptions): ReportRowWriter => {
+  switch (options.format) {
+    case 'csv':
+      return createCSVRowWriter(sample, { columns: options.columns, locale: options.locale, csv: options.csv });
+
+    case 'html':
+      return createHTMLRowWriter(sample, {
+        metadata: options.metadata,
+        styling: { ...DEFAULT_STYLING, ...options.styling },
+        html: options.html,
+        columns: options.columns,
+        locale: options.locale
+      });
+
+    case 'txt': {
+      const columns = resolveColumns(sample, options.columns, options.locale);
+      let recordNumber = 0;
+      return {
+        start: renderTextHeader(options),
+        row: row => renderTextRecord(row, ++recordNumber, columns),
+        end: ''
+      };
+    }
+
+    case 'ndjson': {
+      const columns = options.columns?.length ? resolveColumns(sample, options.columns, options.locale) : null;
+      return {
+        start: '',
+        row: row => `${JSON.stringify(columns ? projectRow(columns, row) : row)}\n`,
+        end: ''
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported streaming format: ${options.format}`);
+  }
+};
+
+/**
+ * Render a report as a stream of UTF-8 bytes, gzipped when compression is set.
+ * Without a column schema, CSV, TXT and HTML take their columns from the first batch.
+ */
+export const createReportStream = (source: ReportSource, options: StreamReportOptions): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const reader = createBatchReader(source, Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE), options.signal);
+  const totalRows = options.totalRows ?? (Array.isArray(source) ? source.length : undefined);
+  let writer: ReportRowWriter | null = null;
+  let rowsProcessed = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    pull: async controller => {
+      try {
+        throwIfAborted(options.signal);
+        const batch = await reader.read();
+        throwIfAborted(options.signal);
+
+        if (!writer) {
+          writer = createRowWriter(batch || [], options);
+          controller.enqueue(encoder.encode(writer.start));
+        }
+
+        if (!batch) {
+          controller.enqueue(encoder.encode(writer.end));
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(encoder.encode(batch.map(writer.row).join('')));
+        rowsProcessed += batch.length;
+        options.onProgress?.(rowsProcessed, totalRows);
+
+        await yieldToEventLoop();
+      } catch (error) {
+        await reader.cancel().catch(() => undefined);
+        throw error;
+      }
+    },
+    cancel: () => reader.cancel()
+  });
+
+  return options.compression ? stream.pipeThrough(createGzipStream()) : stream;
+};
+
+/**
+ * Render a streamed report into a Blob
+ */
+export const streamReportToBlob = async (source: ReportSource, options: StreamReportOptions): Promise<StreamedReport> => {
+  let rowsProcessed = 0;
+  let uncompressedSize = 0;
+
+  const content = createReportStream(source, {
+    ...options,
+    compression: false,
+    onProgress: (rows, totalRows) => {
+      rowsProcessed = rows;
+      options.onProgress?.(rows, totalRows);
+    }
+  }).pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform: (chunk, controller) => {
+      uncompressedSize += chunk.length;
+      controller.enqueue(chunk);
+    }
+  }));
+
+  const type = options.compression ? 'application/gzip' : STREAM_MIME_TYPES[options.format];
+  const reader = (options.compression ? content.pipeThrough(createGzipStream()) : content).getReader();
+  let blob = new Blob([], { type });
+  let parts: Uint8Array[] = [];
+  let pendingBytes = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    parts.push(value);
+    pendingBytes += value.length;
+    if (pendingBytes >= BLOB_FLUSH_BYTES) {
+      blob = new Blob([blob, ...parts], { type });
+      parts = [];
+      pendingBytes = 0;
+    }
+  }
+
+  return {
+    blob: new Blob([blob, ...parts], { type }),
+    uncompressedSize,
+    rowsProcessed
+  };
+};
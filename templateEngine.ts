@@ -0,0 +1,559 @@
+/**
+ * Report Template Engine
+ *
+ * A small, logic-light template language for HTML and plain text reports.
+ * Supports variables with formatter pipes, loops, conditionals and partials,
+ * and escapes HTML output by default.
+ *
+ * Syntax overview:
+ *   {{ metadata.title }}              escaped variable
+ *   {{{ rawHtml }}}                   unescaped variable
+ *   {{ total | number:2 }}            formatter pipe with arguments
+ *   {{#each data}} ... {{else}} ... {{/each}}
+ *   {{#if metadata.author}} ... {{else}} ... {{/if}}
+ *   {{#unless flag}} ... {{/unless}}
+ *   {{#with metadata}} ... {{/with}}
+ *   {{> partialName }}                partial with current scope
+ *   {{! comment }}
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+// Types and Interfaces
+export type TemplateFormatter = (value: any, ...args: any[]) => any;
+
+export interface TemplateOptions {
+  partials?: Record<string, string>;
+  formatters?: Record<string, TemplateFormatter>;
+  locale?: string | string[];
+  escape?: 'html' | 'none';
+}
+
+interface TemplateFilter {
+  name: string;
+  args: TemplateArgument[];
+}
+
+type TemplateArgument = { literal: any } | { path: string };
+
+interface TemplateExpression {
+  path: string;
+  filters: TemplateFilter[];
+}
+
+type BlockKind = 'each' | 'if' | 'unless' | 'with';
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; expression: TemplateExpression; raw: boolean }
+  | { type: 'block'; kind: BlockKind; expression: TemplateExpression; body: TemplateNode[]; inverse: TemplateNode[] }
+  | { type: 'partial'; name: string; path?: string };
+
+interface TemplateTag {
+  content: string;
+  raw: boolean;
+  offset: number;
+}
+
+interface TemplateFrame {
+  value: any;
+  data: Record<string, any>;
+}
+
+// Maximum nesting depth for partials, guarding against recursive partials
+const MAX_PARTIAL_DEPTH = 20;
+
+// Compiled templates kept in memory before the cache is reset
+const MAX_CACHED_TEMPLATES = 100;
+
+const BLOCK_KINDS: BlockKind[] = ['each', 'if', 'unless', 'with'];
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+const compiledTemplates = new Map<string, TemplateNode[]>();
+
+/**
+ * Escape a string for safe inclusion in HTML
+ */
+export const escapeHTML = (value: string): string => {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+};
+
+/**
+ * Build an error message that points at the line and column of a tag
+ */
+const templateError = (template: string, offset: number, message: string): Error => {
+  const before = template.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - before.lastIndexOf('\n');
+  return new Error(`Template error at line ${line}, column ${column}: ${message}`);
+};
+
+/**
+ * Split an expression such as `amount | currency:"EUR"` into tokens
+ */
+const tokenizeExpression = (source: string): string[] => {
+  const tokens: string[] = [];
+  const pattern = /\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[|:,]|[^\s|:,]+)/gy;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null && match[0].length > 0) {
+    tokens.push(match[1]);
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse a formatter argument into a literal or a path reference
+ */
+const parseArgument = (token: string): TemplateArgument => {
+  if (/^(["']).*\1$/s.test(token)) {
+    return { literal: token.slice(1, -1).replace(/\\(.)/g, '$1') };
+  }
+  if (/^-?\d+(\.\d+)?$/.test(token)) {
+    return { literal: Number(token) };
+  }
+  if (token === 'true' || token === 'false') {
+    return { literal: token === 'true' };
+  }
+  if (token === 'null') {
+    return { literal: null };
+  }
+  return { path: token };
+};
+
+/**
+ * Parse a variable expression with optional formatter pipes
+ */
+const parseExpression = (source: string, template: string, offset: number): TemplateExpression => {
+  const tokens = tokenizeExpression(source);
+  if (tokens.length === 0 || /^[|:,]$/.test(tokens[0])) {
+    throw templateError(template, offset, `Expected a value in "{{${source}}}"`);
+  }
+
+  const expression: TemplateExpression = { path: tokens[0], filters: [] };
+  let index = 1;
+
+  while (index < tokens.length) {
+    if (tokens[index] !== '|' || !tokens[index + 1] || /^[|:,]$/.test(tokens[index + 1])) {
+      throw templateError(template, offset, `Unexpected "${tokens[index]}" in "{{${source}}}"`);
+    }
+
+    const filter: TemplateFilter = { name: tokens[index + 1], args: [] };
+    index += 2;
+
+    if (tokens[index] === ':') {
+      index++;
+      for (;;) {
+        const argument = tokens[index];
+        if (argument === undefined || /^[|:,]$/.test(argument)) {
+          throw templateError(template, offset, `Missing argument for formatter "${filter.name}"`);
+        }
+        filter.args.push(parseArgument(argument));
+        index++;
+        if (tokens[index] !== ',') break;
+        index++;
+      }
+    }
+
+    expression.filters.push(filter);
+  }
+
+  return expression;
+};
+
+/**
+ * Find all tags in a template, interleaved with the text between them
+ */
+const scanTemplate = (template: string): { texts: string[]; tags: TemplateTag[] } => {
+  const texts: string[] = [];
+  const tags: TemplateTag[] = [];
+  let cursor = 0;
+
+  for (;;) {
+    const start = template.indexOf('{{', cursor);
+    if (start === -1) {
+      texts.push(template.slice(cursor));
+      break;
+    }
+
+    const raw = template.startsWith('{{{', start);
+    const closing = raw ? '}}}' : '}}';
+    const end = template.indexOf(closing, start + (raw ? 3 : 2));
+    if (end === -1) {
+      throw templateError(template, start, `Unclosed tag, expected "${closing}"`);
+    }
+
+    texts.push(template.slice(cursor, start));
+    tags.push({
+      content: template.slice(start + (raw ? 3 : 2), end).trim(),
+      raw,
+      offset: start
+    });
+    cursor = end + closing.length;
+  }
+
+  return { texts, tags };
+};
+
+/**
+ * Remove the surrounding whitespace and newline of block tags that sit alone
+ * on their line, so loops and conditionals don't leave blank lines behind
+ */
+const stripStandaloneTags = (texts: string[], tags: TemplateTag[]): void => {
+  const standalone = tags.map((tag, index) => {
+    if (tag.raw || !/^[#/!]|^else$/.test(tag.content)) {
+      return false;
+    }
+
+    const before = texts[index];
+    const after = texts[index + 1];
+    const startsLine = index === 0 ? /^[ \t]*$/.test(before) || /\n[ \t]*$/.test(before) : /\n[ \t]*$/.test(before);
+    const endsLine = index === tags.length - 1 ? /^[ \t]*(\r?\n|$)/.test(after) : /^[ \t]*\r?\n/.test(after);
+
+    return startsLine && endsLine;
+  });
+
+  standalone.forEach((isStandalone, index) => {
+    if (isStandalone) {
+      texts[index] = texts[index].replace(/[ \t]*$/, '');
+      texts[index + 1] = texts[index + 1].replace(/^[ \t]*(\r?\n)?/, '');
+    }
+  });
+};
+
+/**
+ * Compile a template string into a node tree
+ */
+const compileTemplate = (template: string): TemplateNode[] => {
+  const cached = compiledTemplates.get(template);
+  if (cached) {
+    return cached;
+  }
+
+  const { texts, tags } = scanTemplate(template);
+  stripStandaloneTags(texts, tags);
+
+  const root: TemplateNode[] = [];
+  const stack: { kind: BlockKind; tag: TemplateTag; node: Extract<TemplateNode, { type: 'block' }>; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.inverse : top.node.body) : root;
+  };
+
+  tags.forEach((tag, index) => {
+    if (texts[index]) {
+      current().push({ type: 'text', value: texts[index] });
+    }
+
+    const content = tag.content;
+
+    if (tag.raw) {
+      current().push({ type: 'variable', expression: parseExpression(content, template, tag.offset), raw: true });
+    } else if (content.startsWith('!')) {
+      // Comment
+    } else if (content.startsWith('#')) {
+      const [keyword, ...rest] = content.slice(1).trim().split(/\s+/);
+      if (!BLOCK_KINDS.includes(keyword as BlockKind)) {
+        throw templateError(template, tag.offset, `Unknown block "#${keyword}"`);
+      }
+
+      const node: Extract<TemplateNode, { type: 'block' }> = {
+        type: 'block',
+        kind: keyword as BlockKind,
+        expression: parseExpression(rest.join(' '), template, tag.offset),
+        body: [],
+        inverse: []
+      };
+      current().push(node);
+      stack.push({ kind: node.kind, tag, node, inElse: false });
+    } else if (content === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw templateError(template, tag.offset, 'Unexpected {{else}}');
+      }
+      top.inElse = true;
+    } else if (content.startsWith('/')) {
+      const keyword = content.slice(1).trim();
+      const top = stack.pop();
+      if (!top) {
+        throw templateError(template, tag.offset, `Unexpected closing tag "{{/${keyword}}}"`);
+      }
+      if (top.kind !== keyword) {
+        throw templateError(template, tag.offset, `Expected "{{/${top.kind}}}" but found "{{/${keyword}}}"`);
+      }
+    } else if (content.startsWith('>')) {
+      const [name, path] = content.slice(1).trim().split(/\s+/);
+      if (!name) {
+        throw templateError(template, tag.offset, 'Partial name is required');
+      }
+      current().push({ type: 'partial', name, path });
+    } else {
+      current().push({ type: 'variable', expression: parseExpression(content, template, tag.offset), raw: false });
+    }
+  });
+
+  if (texts[tags.length]) {
+    root.push({ type: 'text', value: texts[tags.length] });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw templateError(template, unclosed.tag.offset, `Unclosed block "{{#${unclosed.kind}}}"`);
+  }
+
+  if (compiledTemplates.size >= MAX_CACHED_TEMPLATES) {
+    compiledTemplates.clear();
+  }
+  compiledTemplates.set(template, root);
+  return root;
+};
+
+const hasOwn = (value: any, key: string): boolean => Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Read a dotted path from a value. Only own properties count, so inherited
+ * members such as `constructor` or `toString` resolve to undefined.
+ */
+const readPath = (value: any, segments: string[]): any => {
+  return segments.reduce((current, segment) => (current == null || !hasOwn(current, segment) ? undefined : current[segment]), value);
+};
+
+/**
+ * Resolve a path against the scope stack, searching enclosing scopes when the
+ * current one does not define the first segment
+ */
+const resolvePath = (path: string, frames: TemplateFrame[]): any => {
+  let depth = frames.length - 1;
+  let rest = path;
+
+  if (rest === 'this' || rest === '.') {
+    return frames[depth].value;
+  }
+
+  while (rest.startsWith('../')) {
+    depth = Math.max(0, depth - 1);
+    rest = rest.slice(3);
+  }
+
+  if (rest.startsWith('@root')) {
+    return readPath(frames[0].value, rest.split('.').slice(1));
+  }
+
+  const segments = rest.replace(/^this\./, '').split('.');
+
+  if (segments[0].startsWith('@')) {
+    return readPath(frames[depth].data, [segments[0].slice(1), ...segments.slice(1)]);
+  }
+
+  for (let i = depth; i >= 0; i--) {
+    const scope = frames[i].value;
+    if (scope !== null && typeof scope === 'object' && hasOwn(scope, segments[0])) {
+      return readPath(scope, segments);
+    }
+    if (path.startsWith('this.') || path.startsWith('../')) {
+      break;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Determine whether a value counts as true in conditionals
+ */
+const isTruthy = (value: any): boolean => {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+};
+
+/**
+ * Convert a value to its display string
+ */
+const stringify = (value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toLocaleString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const toDate = (value: any): Date | null => {
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Create the built-in formatters for a locale
+ */
+const createFormatters = (locale?: string | string[]): Record<string, TemplateFormatter> => ({
+  date: (value, style = 'medium') => {
+    const date = toDate(value);
+    if (!date) return value;
+
+    switch (style) {
+      case 'iso':
+        return date.toISOString();
+      case 'time':
+        return date.toLocaleTimeString(locale);
+      case 'datetime':
+        return date.toLocaleString(locale);
+      case 'short':
+      case 'medium':
+      case 'long':
+      case 'full':
+        return new Intl.DateTimeFormat(locale, { dateStyle: style }).format(date);
+      default:
+        return date.toLocaleDateString(locale);
+    }
+  },
+  number: (value, decimals?: number) => {
+    const number = Number(value);
+    if (value === null || value === '' || isNaN(number)) return value;
+    return new Intl.NumberFormat(locale, decimals === undefined
+      ? undefined
+      : { minimumFractionDigits: decimals, maximumFractionDigits: decimals }
+    ).format(number);
+  },
+  currency: (value, currency = 'USD') => {
+    const number = Number(value);
+    if (value === null || value === '' || isNaN(number)) return value;
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(number);
+  },
+  percent: (value, decimals = 0) => {
+    const number = Number(value);
+    if (value === null || value === '' || isNaN(number)) return value;
+    return new Intl.NumberFormat(locale, {
+      style: 'percent',
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals
+    }).format(number);
+  },
+  upper: value => stringify(value).toUpperCase(),
+  lower: value => stringify(value).toLowerCase(),
+  trim: value => stringify(value).trim(),
+  truncate: (value, length = 50, suffix = '...') => {
+    const text = stringify(value);
+    return text.length > length ? text.slice(0, length) + suffix : text;
+  },
+  default: (value, fallback = '') => (value === null || value === undefined || value === '' ? fallback : value),
+  json: (value, indent?: number) => JSON.stringify(value, null, indent),
+  join: (value, separator = ', ') => (Array.isArray(value) ? value.map(stringify).join(separator) : value),
+  length: value => (value == null ? 0 : Array.isArray(value) || typeof value === 'string' ? value.length : Object.keys(value).length)
+});
+
+/**
+ * Evaluate an expression, applying its formatter pipes in order
+ */
+const evaluate = (
+  expression: TemplateExpression,
+  frames: TemplateFrame[],
+  formatters: Record<string, TemplateFormatter>
+): any => {
+  return expression.filters.reduce((value, filter) => {
+    const formatter = hasOwn(formatters, filter.name) ? formatters[filter.name] : undefined;
+    if (!formatter) {
+      throw new Error(`Template error: unknown formatter "${filter.name}"`);
+    }
+    const args = filter.args.map(arg => ('literal' in arg ? arg.literal : resolvePath(arg.path, frames)));
+    return formatter(value, ...args);
+  }, resolvePath(expression.path, frames));
+};
+
+/**
+ * Render a template against a context object
+ */
+export const renderTemplate = (template: string, context: any, options: TemplateOptions = {}): string => {
+  const formatters = { ...createFormatters(options.locale), ...options.formatters };
+  const escape = options.escape === 'none' ? (value: string) => value : escapeHTML;
+
+  const renderNodes = (nodes: TemplateNode[], frames: TemplateFrame[], depth: number): string => {
+    let output = '';
+
+    nodes.forEach(node => {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+
+        case 'variable': {
+          const value = stringify(evaluate(node.expression, frames, formatters));
+          output += node.raw ? value : escape(value);
+          break;
+        }
+
+        case 'block': {
+          const value = evaluate(node.expression, frames, formatters);
+
+          if (node.kind === 'each') {
+            const entries: [string | number, any][] = Array.isArray(value)
+              ? value.map((item, index) => [index, item])
+              : value !== null && typeof value === 'object'
+                ? Object.entries(value)
+                : [];
+
+            if (entries.length === 0) {
+              output += renderNodes(node.inverse, frames, depth);
+              break;
+            }
+
+            entries.forEach(([key, item], index) => {
+              output += renderNodes(node.body, [...frames, {
+                value: item,
+                data: {
+                  index,
+                  key,
+                  first: index === 0,
+                  last: index === entries.length - 1
+                }
+              }], depth);
+            });
+          } else if (node.kind === 'with') {
+            output += isTruthy(value)
+              ? renderNodes(node.body, [...frames, { value, data: {} }], depth)
+              : renderNodes(node.inverse, frames, depth);
+          } else {
+            const condition = node.kind === 'if' ? isTruthy(value) : !isTruthy(value);
+            output += renderNodes(condition ? node.body : node.inverse, frames, depth);
+          }
+          break;
+        }
+
+        case 'partial': {
+          const partial = options.partials && hasOwn(options.partials, node.name) ? options.partials[node.name] : undefined;
+          if (partial === undefined) {
+            throw new Error(`Template error: unknown partial "${node.name}"`);
+          }
+          if (depth >= MAX_PARTIAL_DEPTH) {
+            throw new Error(`Template error: partial "${node.name}" exceeds maximum nesting depth`);
+          }
+
+          const partialFrames = node.path
+            ? [...frames, { value: resolvePath(node.path, frames), data: {} }]
+            : frames;
+          output += renderNodes(compileTemplate(partial), partialFrames, depth + 1);
+          break;
+        }
+      }
+    });
+
+    return output;
+  };
+
+  return renderNodes(compileTemplate(template), [{ value: context, data: {} }], 0);
+};
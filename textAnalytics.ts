@@ -0,0 +1,404 @@
+/**
+ * Text Analytics
+ *
+ * Locale-aware statistics for extracted text: word and sentence counts that
+ * follow Intl.Segmenter's dictionary-based segmentation for Chinese, Japanese
+ * and Thai, paragraph counts, term frequencies without stopwords, reading time,
+ * Flesch-style readability scores and a lightweight language detector.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+// Types and Interfaces
+export interface TextAnalyticsOptions {
+  locale?: string; // BCP 47 tag; skips language detection
+  topTerms?: number; // number of most frequent terms to return, 0 disables
+  stopwords?: string[] | false; // replaces the built-in list; false keeps every term
+  wordsPerMinute?: number;
+  charactersPerMinute?: number; // reading speed for Chinese and Japanese
+}
+
+export interface TermFrequency {
+  term: string;
+  count: number;
+}
+
+export interface ReadabilityScores {
+  fleschReadingEase: number;
+  fleschKincaidGrade?: number; // English only
+  syllablesPerWord: number;
+}
+
+export interface DetectedLanguage {
+  language: string;
+  confidence: number; // 0-1
+}
+
+export interface TextAnalytics {
+  language?: string;
+  languageConfidence?: number; // set when the language was detected
+  wordCount: number;
+  sentenceCount: number;
+  paragraphCount: number;
+  averageWordsPerSentence: number;
+  readingTime: number; // in minutes
+  readability?: ReadabilityScores;
+  topTerms: TermFrequency[];
+}
+
+// The parts of Intl.Segmenter used here; TypeScript's es2020 lib does not declare it
+interface SegmentData {
+  segment: string;
+  isWordLike?: boolean;
+}
+
+interface Segmenter {
+  segment: (input: string) => Iterable<SegmentData>;
+}
+
+type SegmenterConstructor = new (
+  locale?: string,
+  options?: { granularity: 'grapheme' | 'word' | 'sentence' }
+) => Segmenter;
+
+const DEFAULT_TOP_TERMS = 10;
+const DEFAULT_WORDS_PER_MINUTE = 238;
+const DEFAULT_CHARACTERS_PER_MINUTE = 255;
+const DETECTION_SAMPLE_SIZE = 20000;
+
+const HAN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+const CJK_CHARACTERS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+const LETTER_OR_NUMBER = /[\p{L}\p{N}]/u;
+const NUMBER = /^[\p{N}.,]+$/u;
+
+// Without Intl.Segmenter, each Chinese or Japanese character counts as a word
+const FALLBACK_WORD = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]|[\p{L}\p{M}\p{N}]+(?:['\u2019-][\p{L}\p{M}\p{N}]+)*/gu;
+const FALLBACK_SENTENCE = /[^.!?\u3002\uff01\uff1f]+(?:[.!?\u3002\uff01\uff1f]+|$)/g;
+
+const SCRIPTS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'latin', pattern: /[A-Za-z\u00c0-\u024f]/g },
+  { name: 'kana', pattern: /[\u3040-\u30ff]/g },
+  { name: 'han', pattern: /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g },
+  { name: 'ko', pattern: /[\uac00-\ud7af\u1100-\u11ff]/g },
+  { name: 'th', pattern: /[\u0e00-\u0e7f]/g },
+  { name: 'cyrillic', pattern: /[\u0400-\u04ff]/g },
+  { name: 'ar', pattern: /[\u0600-\u06ff]/g },
+  { name: 'he', pattern: /[\u0590-\u05ff]/g },
+  { name: 'el', pattern: /[\u0370-\u03ff]/g },
+  { name: 'hi', pattern: /[\u0900-\u097f]/g }
+];
+
+const STOPWORDS: Record<string, string[]> = {
+  en: [
+    'the', 'of', 'and', 'to', 'in', 'is', 'it', 'that', 'for', 'was', 'on', 'are', 'with', 'as', 'be', 'at',
+    'by', 'this', 'have', 'from', 'or', 'an', 'but', 'not', 'they', 'which', 'you', 'we', 'he', 'she', 'his',
+    'her', 'their', 'has', 'had', 'were', 'been', 'will', 'would', 'there', 'can', 'all', 'if', 'so', 'what',
+    'its', 'our', 'them', 'into', 'than', 'then', 'these', 'those', 'a', 'i'
+  ],
+  de: [
+    'der', 'die', 'und', 'in', 'den', 'von', 'zu', 'das', 'mit', 'sich', 'des', 'auf', 'für', 'ist', 'im',
+    'dem', 'nicht', 'ein', 'eine', 'als', 'auch', 'es', 'an', 'werden', 'aus', 'er', 'hat', 'dass', 'sie',
+    'nach', 'wird', 'bei', 'einer', 'um', 'am', 'sind', 'noch', 'wie', 'einem', 'über', 'einen', 'so', 'zum',
+    'war', 'haben', 'nur', 'oder', 'aber', 'vor', 'zur', 'bis', 'ich', 'wir'
+  ],
+  fr: [
+    'le', 'la', 'les', 'de', 'des', 'du', 'et', 'en', 'un', 'une', 'est', 'que', 'qui', 'dans', 'pour', 'pas',
+    'au', 'aux', 'sur', 'se', 'ne', 'plus', 'par', 'il', 'elle', 'ce', 'cette', 'sont', 'avec', 'ont', 'son',
+    'sa', 'ses', 'nous', 'vous', 'ils', 'mais', 'ou', 'leur', 'été', 'être', 'je', 'on', 'lui', 'y', 'a'
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'de', 'del', 'y', 'en', 'un', 'una', 'que', 'es', 'por', 'con', 'no', 'para',
+    'se', 'su', 'sus', 'al', 'lo', 'como', 'más', 'pero', 'fue', 'ha', 'son', 'este', 'esta', 'entre', 'cuando',
+    'muy', 'sin', 'sobre', 'también', 'me', 'hay', 'donde', 'desde', 'todo', 'nos', 'ya', 'o', 'e'
+  ],
+  it: [
+    'il', 'lo', 'la', 'i', 'gli', 'le', 'di', 'del', 'della', 'dei', 'delle', 'e', 'un', 'una', 'che', 'è',
+    'per', 'in', 'non', 'con', 'da', 'si', 'sono', 'come', 'ma', 'anche', 'nel', 'nella', 'alla', 'al', 'più',
+    'questo', 'questa', 'ha', 'erano', 'era', 'loro', 'suo', 'sua', 'tra', 'se', 'ci', 'o'
+  ],
+  pt: [
+    'o', 'a', 'os', 'as', 'de', 'do', 'da', 'dos', 'das', 'e', 'em', 'um', 'uma', 'que', 'é', 'para', 'com',
+    'não', 'por', 'no', 'na', 'nos', 'nas', 'se', 'ao', 'mais', 'como', 'mas', 'foi', 'ele', 'ela', 'seu',
+    'sua', 'são', 'também', 'pelo', 'pela', 'já', 'ou', 'quando', 'muito', 'está', 'isso'
+  ],
+  nl: [
+    'de', 'het', 'een', 'en', 'van', 'in', 'is', 'dat', 'op', 'te', 'zijn', 'voor', 'met', 'die', 'niet',
+    'aan', 'er', 'om', 'ook', 'als', 'bij', 'maar', 'uit', 'wordt', 'door', 'naar', 'heeft', 'hij', 'ze',
+    'nog', 'wel', 'worden', 'dan', 'zo', 'tot', 'kan', 'was', 'werd', 'ik', 'we', 'geen', 'over'
+  ],
+  ru: [
+    'и', 'в', 'не', 'на', 'что', 'с', 'по', 'как', 'а', 'это', 'из', 'к', 'у', 'за', 'о', 'от', 'для', 'же',
+    'он', 'она', 'они', 'мы', 'вы', 'я', 'так', 'но', 'его', 'её', 'их', 'то', 'все', 'бы', 'был', 'была',
+    'были', 'быть', 'или', 'уже', 'только', 'при', 'до'
+  ],
+  zh: [
+    '的', '了', '和', '是', '在', '我', '有', '他', '这', '中', '也', '就', '人', '都', '而', '及', '与', '着',
+    '或', '一个', '没有', '我们', '你', '她', '它', '们', '那', '被', '从', '对', '把', '要', '会', '上', '但',
+    '所以', '因为', '如果', '可以', '这个'
+  ],
+  ja: [
+    'の', 'に', 'は', 'を', 'た', 'が', 'で', 'て', 'と', 'し', 'れ', 'さ', 'ある', 'いる', 'も', 'する',
+    'から', 'な', 'こと', 'として', 'い', 'や', 'れる', 'など', 'なっ', 'ない', 'この', 'ため', 'その', 'あっ',
+    'よう', 'また', 'もの', 'という', 'あり', 'まで', 'られ', 'なる', 'へ', 'か', 'だ', 'これ', 'です', 'ます'
+  ]
+};
+
+// Languages whose stopwords also identify Latin-script text
+const LATIN_LANGUAGES = ['en', 'de', 'fr', 'es', 'it', 'pt', 'nl'];
+
+const stopwordSets = new Map<string, Set<string>>();
+
+/**
+ * Flesch reading ease and its published adaptations, from the average
+ * sentence length in words and the average syllables per word
+ */
+const READING_EASE: Record<string, (wordsPerSentence: number, syllablesPerWord: number) => number> = {
+  en: (wps, spw) => 206.835 - 1.015 * wps - 84.6 * spw,
+  de: (wps, spw) => 180 - wps - 58.5 * spw, // Amstad
+  es: (wps, spw) => 206.84 - 1.02 * wps - 60 * spw, // Fernández Huerta
+  fr: (wps, spw) => 207 - 1.015 * wps - 73.6 * spw, // Kandel and Moles
+  it: (wps, spw) => 217 - 1.3 * wps - 60 * spw, // Flesch-Vacca
+  nl: (wps, spw) => 206.835 - 0.93 * wps - 77 * spw, // Douma
+  pt: (wps, spw) => 248.835 - 1.015 * wps - 84.6 * spw // Martins
+};
+
+const segmenterCache = new Map<string, Segmenter | null>();
+
+/**
+ * Get a cached Intl.Segmenter, or null where the browser does not have one
+ */
+const getSegmenter = (locale: string | undefined, granularity: 'word' | 'sentence'): Segmenter | null => {
+  const cacheKey = `${locale || ''}:${granularity}`;
+  if (segmenterCache.has(cacheKey)) {
+    return segmenterCache.get(cacheKey)!;
+  }
+
+  const SegmenterClass = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+  const segmenter = SegmenterClass ? new SegmenterClass(locale, { granularity }) : null;
+
+  segmenterCache.set(cacheKey, segmenter);
+  return segmenter;
+};
+
+/**
+ * Validate a locale tag; invalid tags make Intl APIs throw, so they fall back to the default locale
+ */
+const resolveLocale = (locale: string | undefined): string | undefined => {
+  if (!locale) {
+    return undefined;
+  }
+  try {
+    return new Intl.Locale(locale).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+const getStopwords = (language: string | undefined): Set<string> => {
+  const key = language || '';
+  let stopwords = stopwordSets.get(key);
+  if (!stopwords) {
+    stopwords = new Set(STOPWORDS[key] || []);
+    stopwordSets.set(key, stopwords);
+  }
+  return stopwords;
+};
+
+/**
+ * Call back with each word of the text, in order
+ */
+const forEachWord = (text: string, locale: string | undefined, callback: (word: string) => void) => {
+  const segmenter = getSegmenter(locale, 'word');
+
+  if (segmenter) {
+    for (const { segment, isWordLike } of segmenter.segment(text)) {
+      if (isWordLike) {
+        callback(segment);
+      }
+    }
+    return;
+  }
+
+  for (const match of text.matchAll(FALLBACK_WORD)) {
+    callback(match[0]);
+  }
+};
+
+/**
+ * Count sentences, ignoring segments without letters or digits such as stray punctuation
+ */
+export const countSentences = (text: string, locale?: string): number => {
+  const segmenter = getSegmenter(resolveLocale(locale), 'sentence');
+  let count = 0;
+
+  if (segmenter) {
+    for (const { segment } of segmenter.segment(text)) {
+      if (LETTER_OR_NUMBER.test(segment)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  for (const match of text.matchAll(FALLBACK_SENTENCE)) {
+    if (LETTER_OR_NUMBER.test(match[0])) {
+      count++;
+    }
+  }
+  return count;
+};
+
+/**
+ * Count words the way the language separates them: by dictionary for Chinese,
+ * Japanese and Thai, by spaces and punctuation elsewhere
+ */
+export const countWords = (text: string, locale?: string): number => {
+  let count = 0;
+  forEachWord(text, resolveLocale(locale), () => count++);
+  return count;
+};
+
+/**
+ * Count paragraphs, separated by blank lines
+ */
+export const countParagraphs = (text: string): number => {
+  return text.split(/\n\s*\n/).filter(paragraph => LETTER_OR_NUMBER.test(paragraph)).length;
+};
+
+/**
+ * Estimate syllables by counting vowel groups, with English and French silent endings
+ */
+const countSyllables = (word: string, language: string): number => {
+  const groups = word.match(/[aeiouy\u00e0\u00e1\u00e2\u00e3\u00e4\u00e5\u00e6\u00e8\u00e9\u00ea\u00eb\u00ec\u00ed\u00ee\u00ef\u00f2\u00f3\u00f4\u00f5\u00f6\u00f8\u00f9\u00fa\u00fb\u00fc\u00fd\u00ff\u0153]+/g);
+  let count = groups ? groups.length : 0;
+
+  if (count > 1 && language === 'en') {
+    // Silent final 'e' as in "make", but not "-le" as in "table"
+    if (/[^aeiouy]e$/.test(word) && !/[^aeiouy]le$/.test(word)) {
+      count--;
+    } else if (/[^aeiouytd]ed$/.test(word)) {
+      // "-ed" is silent unless it follows 't' or 'd', as in "jumped"
+      count--;
+    }
+  } else if (count > 1 && language === 'fr' && /[^aeiouy](e|es|ent)$/.test(word)) {
+    count--;
+  }
+
+  return Math.max(1, count);
+};
+
+/**
+ * Detect the language of a text from its script and, for Latin-script text,
+ * from the share of common function words. The confidence is a rough estimate.
+ */
+export const detectLanguage = (text: string): DetectedLanguage | null => {
+  const sample = text.slice(0, DETECTION_SAMPLE_SIZE);
+  const counts = SCRIPTS.map(script => ({ name: script.name, count: sample.match(script.pattern)?.length || 0 }));
+  const total = counts.reduce((sum, script) => sum + script.count, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  const byName = Object.fromEntries(counts.map(script => [script.name, script.count]));
+  const dominant = counts.reduce((best, script) => script.count > best.count ? script : best);
+
+  // Japanese mixes kanji with kana; Chinese text has next to no kana
+  if (dominant.name === 'han' || dominant.name === 'kana') {
+    const cjk = byName.han + byName.kana;
+    return { language: byName.kana / cjk > 0.1 ? 'ja' : 'zh', confidence: cjk / total };
+  }
+
+  if (dominant.name === 'cyrillic') {
+    return { language: /[\u0456\u0457\u0454\u0491]/i.test(sample) ? 'uk' : 'ru', confidence: dominant.count / total };
+  }
+
+  if (dominant.name !== 'latin') {
+    return { language: dominant.name, confidence: dominant.count / total };
+  }
+
+  const words = sample.toLowerCase().match(/[a-z\u00c0-\u024f]+/g) || [];
+  const hits = LATIN_LANGUAGES.map(language => {
+    const stopwords = getStopwords(language);
+    return { language, count: words.filter(word => stopwords.has(word)).length };
+  });
+  const totalHits = hits.reduce((sum, hit) => sum + hit.count, 0);
+  if (totalHits === 0) {
+    return null;
+  }
+
+  const best = hits.reduce((top, hit) => hit.count > top.count ? hit : top);
+  return { language: best.language, confidence: (dominant.count / total) * (best.count / totalHits) };
+};
+
+const round = (value: number, digits: number): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Analyze a text in one pass over its words
+ */
+export const analyzeText = (text: string, options: TextAnalyticsOptions = {}): TextAnalytics => {
+  const detected = options.locale ? null : detectLanguage(text);
+  const locale = resolveLocale(options.locale || detected?.language);
+  const language = locale?.split('-')[0].toLowerCase();
+
+  const stopwords = options.stopwords === false
+    ? new Set<string>()
+    : options.stopwords ? new Set(options.stopwords.map(word => word.toLocaleLowerCase(locale))) : getStopwords(language);
+  const topTermLimit = options.topTerms ?? DEFAULT_TOP_TERMS;
+  const scoreReadability = !!language && language in READING_EASE;
+
+  const termCounts = new Map<string, number>();
+  let wordCount = 0;
+  let syllableCount = 0;
+
+  forEachWord(text, locale, (word) => {
+    wordCount++;
+    const term = word.toLocaleLowerCase(locale);
+
+    if (scoreReadability) {
+      syllableCount += countSyllables(term, language!);
+    }
+
+    // Single letters carry no meaning outside Chinese characters
+    if (topTermLimit > 0 && !stopwords.has(term) && !NUMBER.test(term) && (term.length > 1 || HAN.test(term))) {
+      termCounts.set(term, (termCounts.get(term) || 0) + 1);
+    }
+  });
+
+  const sentenceCount = countSentences(text, locale);
+  const wordsPerSentence = sentenceCount > 0 ? wordCount / sentenceCount : 0;
+
+  let readability: ReadabilityScores | undefined;
+  if (scoreReadability && wordCount > 0 && sentenceCount > 0) {
+    const syllablesPerWord = syllableCount / wordCount;
+    readability = {
+      fleschReadingEase: round(READING_EASE[language!](wordsPerSentence, syllablesPerWord), 1),
+      fleschKincaidGrade: language === 'en' ? round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59, 1) : undefined,
+      syllablesPerWord: round(syllablesPerWord, 2)
+    };
+  }
+
+  // Chinese and Japanese reading speeds are measured in characters
+  const readingTime = language === 'zh' || language === 'ja'
+    ? (text.match(CJK_CHARACTERS)?.length || 0) / (options.charactersPerMinute || DEFAULT_CHARACTERS_PER_MINUTE)
+    : wordCount / (options.wordsPerMinute || DEFAULT_WORDS_PER_MINUTE);
+
+  const topTerms = Array.from(termCounts, ([term, count]) => ({ term, count }))
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+    .slice(0, topTermLimit);
+
+  return {
+    language,
+    languageConfidence: detected ? round(detected.confidence, 2) : undefined,
+    wordCount,
+    sentenceCount,
+    paragraphCount: countParagraphs(text),
+    averageWordsPerSentence: round(wordsPerSentence, 1),
+    readingTime: round(readingTime, 2),
+    readability,
+    topTerms
+  };
+};
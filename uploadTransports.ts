@@ -0,0 +1,206 @@
+/**
+ * Upload Transports and Manifests
+ *
+ * Transports send the chunks of a file to a backend: over XMLHttpRequest
+ * (with upload progress), over fetch, or through any object implementing
+ * UploadTransport. Manifest stores remember which chunks of a file have been
+ * uploaded, keyed by the file's checksum, so an upload can resume after a reload.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+// Types and Interfaces
+export interface UploadTarget {
+  uploadId: string;
+  file: File;
+  checksum: string;
+  chunkSize: number;
+  totalChunks: number;
+}
+
+export interface UploadChunk {
+  index: number;
+  start: number;
+  end: number;
+  data: Blob;
+}
+
+export interface ChunkUploadContext {
+  signal: AbortSignal;
+  onProgress: (loadedBytes: number) => void;
+}
+
+export interface UploadTransport {
+  // Opens an upload session and returns its id; the checksum is used when omitted
+  createUpload?: (target: Omit<UploadTarget, 'uploadId'>, signal: AbortSignal) => Promise<string>;
+  uploadChunk: (target: UploadTarget, chunk: UploadChunk, context: ChunkUploadContext) => Promise<void>;
+  completeUpload?: (target: UploadTarget, signal: AbortSignal) => Promise<unknown>;
+  abortUpload?: (target: UploadTarget) => Promise<void>;
+}
+
+export type UploadChunkHandler = UploadTransport['uploadChunk'];
+
+export interface HttpTransportOptions {
+  url: string | ((target: UploadTarget, chunk: UploadChunk) => string);
+  method?: 'POST' | 'PUT' | 'PATCH';
+  headers?: Record<string, string> | ((target: UploadTarget, chunk: UploadChunk) => Record<string, string>);
+  withCredentials?: boolean;
+}
+
+export interface UploadManifest {
+  checksum: string;
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  completedChunks: number[];
+  updatedAt: number;
+}
+
+export interface UploadManifestStore {
+  get: (checksum: string) => UploadManifest | null | Promise<UploadManifest | null>;
+  set: (manifest: UploadManifest) => void | Promise<void>;
+  delete: (checksum: string) => void | Promise<void>;
+}
+
+const ABORT_MESSAGE = 'Operation was aborted';
+
+/**
+ * Describe a chunk in request headers, so one endpoint can reassemble files
+ */
+const getChunkHeaders = (target: UploadTarget, chunk: UploadChunk): Record<string, string> => ({
+  'Content-Type': 'application/octet-stream',
+  'Content-Range': `bytes ${chunk.start}-${chunk.end - 1}/${target.file.size}`,
+  'X-Upload-Id': target.uploadId,
+  'X-Chunk-Index': String(chunk.index),
+  'X-Chunk-Count': String(target.totalChunks),
+  'X-File-Name': encodeURIComponent(target.file.name),
+  'X-File-Checksum': target.checksum
+});
+
+const resolveRequest = (options: HttpTransportOptions, target: UploadTarget, chunk: UploadChunk) => {
+  const headers = typeof options.headers === 'function' ? options.headers(target, chunk) : options.headers;
+
+  return {
+    url: typeof options.url === 'function' ? options.url(target, chunk) : options.url,
+    method: options.method || 'PUT',
+    headers: { ...getChunkHeaders(target, chunk), ...headers }
+  };
+};
+
+/**
+ * Send chunks with XMLHttpRequest, which reports upload progress
+ */
+export const createXHRTransport = (options: HttpTransportOptions): UploadTransport => ({
+  uploadChunk: (target, chunk, context) => {
+    const request = resolveRequest(options, target, chunk);
+
+    return new Promise<void>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const onAbort = () => xhr.abort();
+
+      xhr.open(request.method, request.url);
+      xhr.withCredentials = !!options.withCredentials;
+      Object.entries(request.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+      xhr.upload.onprogress = (event) => context.onProgress(event.loaded);
+
+      xhr.onload = () => {
+        context.signal.removeEventListener('abort', onAbort);
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Chunk ${chunk.index} upload failed with status ${xhr.status}`));
+        }
+      };
+
+      xhr.onerror = () => {
+        context.signal.removeEventListener('abort', onAbort);
+        reject(new Error(`Chunk ${chunk.index} upload failed: network error`));
+      };
+
+      xhr.onabort = () => {
+        context.signal.removeEventListener('abort', onAbort);
+        reject(new Error(ABORT_MESSAGE));
+      };
+
+      context.signal.addEventListener('abort', onAbort);
+      xhr.send(chunk.data);
+    });
+  }
+});
+
+/**
+ * Send chunks with fetch. Progress is reported once each chunk completes.
+ */
+export const createFetchTransport = (options: HttpTransportOptions): UploadTransport => ({
+  uploadChunk: async (target, chunk, context) => {
+    const request = resolveRequest(options, target, chunk);
+
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: chunk.data,
+      credentials: options.withCredentials ? 'include' : 'same-origin',
+      signal: context.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chunk ${chunk.index} upload failed with status ${response.status}`);
+    }
+
+    context.onProgress(chunk.end - chunk.start);
+  }
+});
+
+/**
+ * Keep manifests in memory; uploads resume within the page but not after a reload
+ */
+export const createMemoryManifestStore = (): UploadManifestStore => {
+  const manifests = new Map<string, UploadManifest>();
+
+  return {
+    get: (checksum) => manifests.get(checksum) || null,
+    set: (manifest) => {
+      manifests.set(manifest.checksum, manifest);
+    },
+    delete: (checksum) => {
+      manifests.delete(checksum);
+    }
+  };
+};
+
+/**
+ * Keep manifests in localStorage, falling back to memory where it is unavailable
+ */
+export const createLocalStorageManifestStore = (prefix = 'file-upload:'): UploadManifestStore => {
+  let storage: Storage | null = null;
+  try {
+    storage = typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // Access throws when storage is disabled, e.g. for sandboxed iframes
+  }
+
+  if (!storage) {
+    return createMemoryManifestStore();
+  }
+
+  const store = storage;
+  return {
+    get: (checksum) => {
+      try {
+        const stored = store.getItem(prefix + checksum);
+        return stored ? JSON.parse(stored) as UploadManifest : null;
+      } catch {
+        return null;
+      }
+    },
+    set: (manifest) => {
+      store.setItem(prefix + manifest.checksum, JSON.stringify(manifest));
+    },
+    delete: (checksum) => {
+      store.removeItem(prefix + checksum);
+    }
+  };
+};
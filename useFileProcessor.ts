@@ -8,12 +8,58 @@
  * @license MIT
  */
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { hashBlob, readBlob, readFileInChunks } from './fileStreamReader';
+import { detectFileEncoding } from './encodingDetection';
+import { ContentParseOptions, ParsedContent, getParseFormat, parseContent } from './contentParsers';
+import { DEFAULT_EXTRACTORS, DocumentExtractor, DocumentMetadata, findExtractor } from './documentExtractors';
+import { analyzeText, TextAnalytics, TextAnalyticsOptions } from './textAnalytics';
+import { createTaskRunner, TaskRunner, WorkerFactory } from './workerClient';
+import {
+  CollectionChange,
+  createPersistentCollection,
+  createRecordId,
+  PersistenceOptions,
+  PersistentCollection
+} from './persistence';
+import {
+  getDisplayDimensions,
+  ImageInfo,
+  ImageProcessingOptions,
+  isRasterImageType,
+  processImage,
+  readImageHeader
+} from './imageProcessing';
+import {
+  collectClipboardFiles,
+  collectDataTransferFiles,
+  FileFilterOptions,
+  filterFiles,
+  getRelativePath
+} from './fileSelection';
+import {
+  detectFileType,
+  getTextMimeType,
+  isCompatibleMimeType,
+  matchesMimeType,
+  resolveMimeType,
+  DetectedFileType
+} from './fileTypeDetection';
+
+export { createIndexedDBAdapter, createMemoryStorageAdapter } from './persistence';
+
+export { analyzeText, detectLanguage } from './textAnalytics';
+
+export type { ReadabilityScores, TermFrequency, TextAnalytics, TextAnalyticsOptions } from './textAnalytics';
+
+export type { IndexedDBAdapterOptions, PersistenceOptions, StorageAdapter, StoredRecord } from './persistence';
 
 // Types and Interfaces
 export interface ProcessedFile {
+  id: string;
   content: string;
   fileName: string;
+  relativePath?: string;
   fileSize: number;
   fileType: string;
   lastModified: number;
@@ -21,7 +67,12 @@ export interface ProcessedFile {
   wordCount: number;
   lineCount: number;
   encoding?: string;
+  encodingConfidence?: number;
   checksum?: string;
+  documentMetadata?: DocumentMetadata;
+  parsed?: ParsedContent;
+  analytics?: TextAnalytics;
+  image?: ImageInfo;
 }
 
 export interface FileValidationOptions {
@@ -29,22 +80,83 @@ export interface FileValidationOptions {
   allowedTypes?: string[];
   allowedExtensions?: string[];
   minSize?: number;
+  minWidth?: number; // image dimension rules, in pixels
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  detectContentType?: boolean;
+  rejectDuplicates?: boolean;
+  collectAllErrors?: boolean;
+  maxFiles?: number; // per batch
+  maxTotalSize?: number; // per batch, in bytes
   customValidator?: (file: File) => Promise<boolean> | boolean;
 }
 
 export interface FileProcessingOptions {
-  encoding?: string;
+  encoding?: string; // TextDecoder label, or 'auto'
   includeMetadata?: boolean;
   calculateChecksum?: boolean;
   chunkSize?: number;
+  streaming?: boolean;
+  retainContent?: boolean;
+  concurrency?: number;
+  extractors?: DocumentExtractor[];
+  parse?: boolean | ContentParseOptions;
+  analytics?: boolean | TextAnalyticsOptions;
+  image?: ImageProcessingOptions;
+  duplicatePolicy?: DuplicatePolicy;
+  duplicateKey?: DuplicateKey;
   onProgress?: (progress: number) => void;
 }
 
+export type DuplicatePolicy = 'allow' | 'skip' | 'replace' | 'rename';
+
+// 'metadata' compares name, size and last-modified time; 'checksum' compares content
+export type DuplicateKey = 'checksum' | 'metadata';
+
+export type FileErrorCode =
+  | 'FILE_TOO_LARGE'
+  | 'FILE_TOO_SMALL'
+  | 'TYPE_NOT_ALLOWED'
+  | 'EXTENSION_NOT_ALLOWED'
+  | 'TYPE_MISMATCH'
+  | 'IMAGE_TOO_SMALL'
+  | 'IMAGE_TOO_LARGE'
+  | 'IMAGE_DIMENSIONS_UNREADABLE'
+  | 'CUSTOM_RULE_FAILED'
+  | 'DUPLICATE_FILE'
+  | 'TOO_MANY_FILES'
+  | 'TOTAL_SIZE_EXCEEDED'
+  | 'VALIDATION_ERROR'
+  | 'PROCESSING_ERROR'
+  | 'ABORTED';
+
 export interface FileProcessorError {
-  code: string;
+  code: FileErrorCode;
   message: string;
   file?: File;
   details?: any;
+  errors?: FileProcessorError[];
+}
+
+export interface ProcessFileOptions {
+  signal?: AbortSignal;
+}
+
+export interface ProcessFilesOptions extends ProcessFileOptions {
+  concurrency?: number;
+}
+
+export type FileStatus = 'queued' | 'validating' | 'reading' | 'done' | 'skipped' | 'failed' | 'aborted';
+
+export interface FileProcessingStatus {
+  id: string;
+  file: File;
+  fileName: string;
+  status: FileStatus;
+  progress: number;
+  error?: FileProcessorError;
+  result?: ProcessedFile;
 }
 
 export interface UseFileProcessorOptions {
@@ -52,14 +164,34 @@ export interface UseFileProcessorOptions {
   processing?: FileProcessingOptions;
   onError?: (error: FileProcessorError) => void;
   onSuccess?: (result: ProcessedFile) => void;
+  filter?: FileFilterOptions;
+  worker?: WorkerFactory;
+  persistence?: PersistenceOptions;
+}
+
+export interface UseFileInputOptions extends UseFileProcessorOptions {
+  directory?: boolean;
+}
+
+export interface UseFileDropOptions extends UseFileInputOptions {
+  preventWindowDrop?: boolean;
 }
 
 // Default validation options
 const DEFAULT_VALIDATION: FileValidationOptions = {
   maxSize: 10 * 1024 * 1024, // 10MB
-  allowedTypes: ['text/plain', 'text/csv', 'application/json', 'text/html', 'text/markdown'],
+  allowedTypes: [
+    'text/plain',
+    'text/csv',
+    'application/json',
+    'text/html',
+    'text/markdown',
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ],
   allowedExtensions: ['.txt', '.csv', '.json', '.html', '.md', '.docx', '.pdf'],
-  minSize: 1
+  minSize: 1,
+  detectContentType: true
 };
 
 // Default processing options
@@ -67,7 +199,94 @@ const DEFAULT_PROCESSING: FileProcessingOptions = {
   encoding: 'utf-8',
   includeMetadata: true,
   calculateChecksum: false,
-  chunkSize: 64 * 1024 // 64KB chunks
+  chunkSize: 64 * 1024, // 64KB chunks
+  streaming: false,
+  retainContent: true,
+  concurrency: 1,
+  extractors: DEFAULT_EXTRACTORS,
+  duplicatePolicy: 'allow',
+  duplicateKey: 'metadata'
+};
+
+const ABORT_MESSAGE = 'Operation was aborted';
+
+/**
+ * Create an id that stays with a file from its first status update to its processed result
+ */
+const createFileId = (): string => createRecordId('file');
+
+/**
+ * Identify a file by name, size and modification time
+ */
+const getFileKey = (file: Pick<File, 'name' | 'size' | 'lastModified'>): string => {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+};
+
+/**
+ * Identify a processed file the way getFileKey identifies its source file
+ */
+const getProcessedFileKey = (file: ProcessedFile): string => {
+  return getFileKey({ name: file.fileName, size: file.fileSize, lastModified: file.lastModified });
+};
+
+/**
+ * Find an earlier processed file that counts as a duplicate of the given one
+ */
+const findDuplicate = (
+  processedFiles: ProcessedFile[],
+  candidate: Pick<ProcessedFile, 'fileName' | 'fileSize' | 'lastModified' | 'checksum'>,
+  key: DuplicateKey
+): ProcessedFile | undefined => {
+  if (key === 'checksum') {
+    return candidate.checksum ? processedFiles.find(file => file.checksum === candidate.checksum) : undefined;
+  }
+
+  return processedFiles.find(file =>
+    file.fileName === candidate.fileName &&
+    file.fileSize === candidate.fileSize &&
+    file.lastModified === candidate.lastModified
+  );
+};
+
+/**
+ * Number a file name ('notes (1).txt', 'notes (2).txt', ...) until it is not taken
+ */
+const createUniqueFileName = (fileName: string, takenNames: Set<string>): string => {
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot) : '';
+
+  let candidate = fileName;
+  for (let n = 1; takenNames.has(candidate); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+
+  return candidate;
+};
+
+/**
+ * Describe a dimension limit, e.g. 'width 800px, height 600px'
+ */
+const describeDimensions = (width?: number, height?: number): string => {
+  return [width && `width ${width}px`, height && `height ${height}px`].filter(Boolean).join(', ');
+};
+
+/**
+ * Abort a controller when an external signal aborts. Returns a cleanup function.
+ */
+const linkAbortSignal = (controller: AbortController, signal?: AbortSignal): (() => void) => {
+  if (!signal) {
+    return () => undefined;
+  }
+
+  if (signal.aborted) {
+    controller.abort();
+    return () => undefined;
+  }
+
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort);
+  return () => signal.removeEventListener('abort', onAbort);
 };
 
 /**
@@ -78,59 +297,306 @@ export const useFileProcessor = (options: UseFileProcessorOptions = {}) => {
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<FileProcessorError | null>(null);
   const [processedFiles, setProcessedFiles] = useState<ProcessedFile[]>([]);
+  const [fileStatuses, setFileStatuses] = useState<Record<string, FileProcessingStatus>>({});
+  const [isRestoring, setIsRestoring] = useState(!!options.persistence);
   
-  const abortControllerRef = useRef<AbortController | null>(null);
+  // Every running processFile and processFiles call, so overlapping calls can all be aborted
+  const activeOperationsRef = useRef<Map<AbortController, 'file' | 'batch'>>(new Map());
+  const processedKeysRef = useRef<Set<string>>(new Set());
+  // Mirrors processedFiles so concurrent files in a batch see each other's results
+  const processedFilesRef = useRef<ProcessedFile[]>([]);
+  const taskRunnerRef = useRef<TaskRunner | null>(null);
+  const collectionRef = useRef<PersistentCollection<ProcessedFile> | null>(null);
   
   const validationOptions = { ...DEFAULT_VALIDATION, ...options.validation };
   const processingOptions = { ...DEFAULT_PROCESSING, ...options.processing };
 
+  useEffect(() => () => {
+    taskRunnerRef.current?.terminate();
+    taskRunnerRef.current = null;
+  }, []);
+
   /**
-   * Validate a file against the specified criteria
+   * Get the worker task runner, starting the worker on first use
    */
-  const validateFile = useCallback(async (file: File): Promise<boolean> => {
+  const getTaskRunner = useCallback((): TaskRunner => {
+    if (!taskRunnerRef.current) {
+      taskRunnerRef.current = createTaskRunner(options.worker);
+    }
+    return taskRunnerRef.current;
+  }, [options.worker]);
+
+  /**
+   * Replace the processed files list, keeping the ref mirror in step
+   */
+  const updateProcessedFiles = useCallback((next: ProcessedFile[]) => {
+    processedFilesRef.current = next;
+    setProcessedFiles(next);
+  }, []);
+
+  /**
+   * Drop files from the list, e.g. after another tab deleted them
+   */
+  const removeProcessedFiles = useCallback((ids: string[]) => {
+    const removed = new Set(ids);
+    processedFilesRef.current
+      .filter(file => removed.has(file.id))
+      .forEach(file => processedKeysRef.current.delete(getProcessedFileKey(file)));
+    updateProcessedFiles(processedFilesRef.current.filter(file => !removed.has(file.id)));
+  }, [updateProcessedFiles]);
+
+  // Restore files saved by earlier sessions and follow changes made in other tabs.
+  // The collection is reopened when the adapter or limits change, so create the adapter outside the component.
+  // Callbacks are read through a ref, so new onEvict and onError functions do not reopen it.
+  const persistenceRef = useRef(options.persistence);
+  persistenceRef.current = options.persistence;
+  const { adapter, maxBytes, maxEntries, sync } = options.persistence || {};
+  useEffect(() => {
+    if (!adapter) {
+      return;
+    }
+
+    const collection = createPersistentCollection<ProcessedFile>('processedFiles', {
+      adapter,
+      maxBytes,
+      maxEntries,
+      sync,
+      onEvict: keys => persistenceRef.current?.onEvict?.(keys),
+      onError: error => persistenceRef.current?.onError?.(error)
+    });
+    collectionRef.current = collection;
+    let active = true;
+
+    const unsubscribe = collection.subscribe((change: CollectionChange<ProcessedFile>) => {
+      if (change.type === 'put') {
+        const file = change.record.value;
+        const current = processedFilesRef.current;
+        processedKeysRef.current.add(getProcessedFileKey(file));
+        updateProcessedFiles(current.some(existing => existing.id === file.id)
+          ? current.map(existing => existing.id === file.id ? file : existing)
+          : [...current, file]);
+      } else if (change.type === 'delete') {
+        removeProcessedFiles(change.keys);
+      } else if (change.type === 'clear') {
+        processedKeysRef.current.clear();
+        updateProcessedFiles([]);
+      }
+    });
+
+    collection.load().then(files => {
+      if (!active) {
+        return;
+      }
+      // Files processed while restoring stay after the restored ones
+      const currentIds = new Set(processedFilesRef.current.map(file => file.id));
+      files.forEach(file => processedKeysRef.current.add(getProcessedFileKey(file)));
+      updateProcessedFiles([...files.filter(file => !currentIds.has(file.id)), ...processedFilesRef.current]);
+      setIsRestoring(false);
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+      collection.close();
+      if (collectionRef.current === collection) {
+        collectionRef.current = null;
+      }
+    };
+  }, [adapter, maxBytes, maxEntries, sync, updateProcessedFiles, removeProcessedFiles]);
+
+  /**
+   * Check a file against the validation criteria, returning the failure if any.
+   * Aborting the signal rejects instead of reporting a validation failure.
+   * `detectType` lets callers reuse the content sniff for the same file.
+   */
+  const checkFile = useCallback(async (
+    file: File,
+    signal?: AbortSignal,
+    detectType = () => detectFileType(file, signal)
+  ): Promise<FileProcessorError | null> => {
+    const failures: FileProcessorError[] = [];
+
+    // Record a failed rule; returns true when validation should stop here
+    const fail = (code: FileErrorCode, message: string, details: Record<string, any>): boolean => {
+      failures.push({ code, message, file, details });
+      return !validationOptions.collectAllErrors;
+    };
+
+    const result = (): FileProcessorError | null => {
+      if (failures.length === 0) {
+        return null;
+      }
+      return validationOptions.collectAllErrors ? { ...failures[0], errors: failures } : failures[0];
+    };
+
     try {
       // Size validation
       if (validationOptions.maxSize && file.size > validationOptions.maxSize) {
-        throw new Error(`File size (${file.size} bytes) exceeds maximum allowed size (${validationOptions.maxSize} bytes)`);
+        if (fail(
+          'FILE_TOO_LARGE',
+          `File size (${file.size} bytes) exceeds maximum allowed size (${validationOptions.maxSize} bytes)`,
+          { limit: validationOptions.maxSize, actual: file.size }
+        )) return result();
       }
       
       if (validationOptions.minSize && file.size < validationOptions.minSize) {
-        throw new Error(`File size (${file.size} bytes) is below minimum required size (${validationOptions.minSize} bytes)`);
+        if (fail(
+          'FILE_TOO_SMALL',
+          `File size (${file.size} bytes) is below minimum required size (${validationOptions.minSize} bytes)`,
+          { limit: validationOptions.minSize, actual: file.size }
+        )) return result();
       }
 
-      // Type validation
-      if (validationOptions.allowedTypes && !validationOptions.allowedTypes.includes(file.type)) {
-        throw new Error(`File type '${file.type}' is not allowed`);
+      // Browsers often report no type for .md or .csv, so fall back to the extension
+      const declaredType = file.type || getTextMimeType(file.name) || '';
+
+      // Content sniffing: compare the declared type with the file's leading bytes
+      let detectedType: DetectedFileType | null = null;
+      if (validationOptions.detectContentType) {
+        detectedType = await detectType();
+        if (detectedType && !isCompatibleMimeType(declaredType, detectedType, file.name)) {
+          if (fail(
+            'TYPE_MISMATCH',
+            `File content looks like '${detectedType.mimeType}' but the file is declared as '${declaredType}'`,
+            { declaredType, detectedType: detectedType.mimeType }
+          )) return result();
+        }
+      }
+
+      // Type validation (supports wildcard patterns such as 'image/*')
+      const fileType = resolveMimeType(declaredType, detectedType);
+      if (validationOptions.allowedTypes && !validationOptions.allowedTypes.some(pattern => matchesMimeType(fileType, pattern))) {
+        if (fail(
+          'TYPE_NOT_ALLOWED',
+          `File type '${fileType}' is not allowed`,
+          { actual: fileType, allowed: validationOptions.allowedTypes }
+        )) return result();
       }
 
       // Extension validation
       if (validationOptions.allowedExtensions) {
         const extension = '.' + file.name.split('.').pop()?.toLowerCase();
         if (!validationOptions.allowedExtensions.includes(extension)) {
-          throw new Error(`File extension '${extension}' is not allowed`);
+          if (fail(
+            'EXTENSION_NOT_ALLOWED',
+            `File extension '${extension}' is not allowed`,
+            { actual: extension, allowed: validationOptions.allowedExtensions }
+          )) return result();
         }
       }
 
+      // Dimension validation reads only the image header
+      const { minWidth, minHeight, maxWidth, maxHeight } = validationOptions;
+      if ((minWidth || minHeight || maxWidth || maxHeight) && isRasterImageType(fileType)) {
+        const header = await readImageHeader(file, signal);
+        if (!header) {
+          if (fail(
+            'IMAGE_DIMENSIONS_UNREADABLE',
+            `Image dimensions of '${file.name}' could not be read`,
+            { limit: { minWidth, minHeight, maxWidth, maxHeight } }
+          )) return result();
+        } else {
+          const { width, height } = getDisplayDimensions(header);
+          if ((minWidth && width < minWidth) || (minHeight && height < minHeight)) {
+            if (fail(
+              'IMAGE_TOO_SMALL',
+              `Image dimensions (${width}x${height}) are below the minimum ${describeDimensions(minWidth, minHeight)}`,
+              { limit: { width: minWidth, height: minHeight }, actual: { width, height } }
+            )) return result();
+          }
+          if ((maxWidth && width > maxWidth) || (maxHeight && height > maxHeight)) {
+            if (fail(
+              'IMAGE_TOO_LARGE',
+              `Image dimensions (${width}x${height}) exceed the maximum ${describeDimensions(maxWidth, maxHeight)}`,
+              { limit: { width: maxWidth, height: maxHeight }, actual: { width, height } }
+            )) return result();
+          }
+        }
+      }
+
+      // Duplicate validation
+      if (validationOptions.rejectDuplicates && processedKeysRef.current.has(getFileKey(file))) {
+        if (fail(
+          'DUPLICATE_FILE',
+          `File '${file.name}' has already been processed`,
+          { fileName: file.name, size: file.size, lastModified: file.lastModified }
+        )) return result();
+      }
+
       // Custom validation
       if (validationOptions.customValidator) {
-        const isValid = await validationOptions.customValidator(file);
+        let isValid: boolean;
+        let reason: unknown;
+        try {
+          isValid = await validationOptions.customValidator(file);
+        } catch (error) {
+          isValid = false;
+          reason = error;
+        }
         if (!isValid) {
-          throw new Error('File failed custom validation');
+          fail(
+            'CUSTOM_RULE_FAILED',
+            reason instanceof Error ? reason.message : 'File failed custom validation',
+            { error: reason }
+          );
         }
       }
-
-      return true;
     } catch (error) {
-      const fileError: FileProcessorError = {
+      if (signal?.aborted) {
+        throw error;
+      }
+      failures.push({
         code: 'VALIDATION_ERROR',
         message: error instanceof Error ? error.message : 'Validation failed',
-        file
-      };
+        file,
+        details: { error }
+      });
+    }
+
+    return result();
+  }, [validationOptions]);
+
+  /**
+   * Check a batch against the file count and total size limits
+   */
+  const checkBatch = useCallback((files: File[]): FileProcessorError | null => {
+    const failures: FileProcessorError[] = [];
+
+    if (validationOptions.maxFiles && files.length > validationOptions.maxFiles) {
+      failures.push({
+        code: 'TOO_MANY_FILES',
+        message: `${files.length} files exceed the maximum of ${validationOptions.maxFiles} files per batch`,
+        details: { limit: validationOptions.maxFiles, actual: files.length }
+      });
+    }
+
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    if (validationOptions.maxTotalSize && totalSize > validationOptions.maxTotalSize) {
+      failures.push({
+        code: 'TOTAL_SIZE_EXCEEDED',
+        message: `Total size (${totalSize} bytes) exceeds maximum allowed total size (${validationOptions.maxTotalSize} bytes)`,
+        details: { limit: validationOptions.maxTotalSize, actual: totalSize }
+      });
+    }
+
+    if (failures.length === 0) {
+      return null;
+    }
+    return validationOptions.collectAllErrors ? { ...failures[0], errors: failures } : failures[0];
+  }, [validationOptions]);
+
+  /**
+   * Validate a file against the specified criteria
+   */
+  const validateFile = useCallback(async (file: File): Promise<boolean> => {
+    const fileError = await checkFile(file);
+    if (fileError) {
       setError(fileError);
       options.onError?.(fileError);
       return false;
     }
-  }, [validationOptions, options.onError]);
+    return true;
+  }, [checkFile, options.onError]);
 
   /**
    * Calculate file checksum (SHA-256)
@@ -158,123 +624,443 @@ export const useFileProcessor = (options: UseFileProcessorOptions = {}) => {
   }, []);
 
   /**
-   * Process a single file
+   * Add a processed file to the list, resolving duplicates by the configured policy.
+   * Returns the entry that ends up in the list, or the existing one when skipped.
    */
-  const processFile = useCallback(async (file: File): Promise<ProcessedFile | null> => {
-    setIsProcessing(true);
-    setProgress(0);
-    setError(null);
+  const commitProcessedFile = useCallback((processedFile: ProcessedFile): { processedFile: ProcessedFile; skipped: boolean } => {
+    const current = processedFilesRef.current;
+    const policy = processingOptions.duplicatePolicy || 'allow';
+    const duplicate = policy === 'allow'
+      ? undefined
+      : findDuplicate(current, processedFile, processingOptions.duplicateKey || 'metadata');
 
-    try {
-      // Create abort controller for this operation
-      abortControllerRef.current = new AbortController();
+    let committed = processedFile;
+    let next: ProcessedFile[];
+
+    if (!duplicate) {
+      next = [...current, processedFile];
+    } else if (policy === 'skip') {
+      return { processedFile: duplicate, skipped: true };
+    } else if (policy === 'replace') {
+      // The replacement takes over the original id so lists keyed by id keep their place
+      committed = { ...processedFile, id: duplicate.id };
+      next = current.map(file => file === duplicate ? committed : file);
+    } else {
+      committed = {
+        ...processedFile,
+        fileName: createUniqueFileName(processedFile.fileName, new Set(current.map(file => file.fileName)))
+      };
+      next = [...current, committed];
+    }
+
+    updateProcessedFiles(next);
+
+    // Eviction only limits what is stored; the file stays in the list until cleared
+    void collectionRef.current?.save(committed.id, committed);
+
+    return { processedFile: committed, skipped: false };
+  }, [processingOptions, updateProcessedFiles]);
 
+  /**
+   * Validate, read and analyze one file without touching the shared hook state.
+   * Reports stage changes and read progress through the given callbacks.
+   */
+  const runFile = useCallback(async (
+    file: File,
+    id: string,
+    signal: AbortSignal,
+    onProgress: (progress: number) => void,
+    onStage: (stage: 'validating' | 'reading') => void
+  ): Promise<{ processedFile?: ProcessedFile; skipped?: boolean; error?: FileProcessorError }> => {
+    const fileKey = getFileKey(file);
+    let reserved = false;
+
+    // Validation and extractor selection share one read of the leading bytes
+    let detection: Promise<DetectedFileType | null> | undefined;
+    const detectType = () => (detection ??= detectFileType(file, signal));
+
+    try {
       // Validate file first
-      const isValid = await validateFile(file);
-      if (!isValid) {
-        return null;
+      onStage('validating');
+      const validationError = await checkFile(file, signal, detectType);
+      if (validationError) {
+        options.onError?.(validationError);
+        return { error: validationError };
       }
 
-      // Read file content
-      const content = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        
-        reader.onload = () => {
-          resolve(reader.result as string);
-        };
-        
-        reader.onerror = () => {
-          reject(new Error('Failed to read file'));
-        };
-        
-        reader.onprogress = (event) => {
-          if (event.lengthComputable) {
-            const progress = (event.loaded / event.total) * 100;
-            setProgress(progress);
-            processingOptions.onProgress?.(progress);
-          }
-        };
+      const duplicatePolicy = processingOptions.duplicatePolicy || 'allow';
+      const duplicateKey = processingOptions.duplicateKey || 'metadata';
 
-        reader.readAsText(file, processingOptions.encoding);
-      });
+      // A known file can be skipped without reading it when duplicates are matched by metadata
+      if (duplicatePolicy === 'skip' && duplicateKey === 'metadata') {
+        const existing = findDuplicate(
+          processedFilesRef.current,
+          { fileName: file.name, fileSize: file.size, lastModified: file.lastModified },
+          duplicateKey
+        );
+        if (existing) {
+          return { processedFile: existing, skipped: true };
+        }
+      }
+
+      // Matching duplicates by content needs a checksum even when none was requested
+      const needsChecksum = processingOptions.calculateChecksum || (duplicatePolicy !== 'allow' && duplicateKey === 'checksum');
 
-      // Check if operation was aborted
-      if (abortControllerRef.current?.signal.aborted) {
-        throw new Error('Operation was aborted');
+      // Reserve the file's key so concurrent duplicates in a batch are caught too
+      processedKeysRef.current.add(fileKey);
+      reserved = true;
+
+      if (signal.aborted) {
+        throw new Error(ABORT_MESSAGE);
       }
 
-      // Process content and calculate metadata
-      const characterCount = content.length;
-      const wordCount = countWords(content);
-      const lineCount = countLines(content);
-      
+      onStage('reading');
+
+      // Binary documents such as DOCX and PDF go through an extractor chosen by
+      // detected type, and bitmap images through the image pipeline
+      const mimeType = resolveMimeType(file.type || getTextMimeType(file.name) || '', await detectType());
+      const extractor = processingOptions.extractors?.length
+        ? findExtractor(processingOptions.extractors, mimeType)
+        : undefined;
+      const isImage = !extractor && isRasterImageType(mimeType);
+
+      // Detect the encoding from the file's bytes when asked to
+      let encoding = processingOptions.encoding;
+      let encodingConfidence: number | undefined;
+      if (!extractor && !isImage && encoding === 'auto') {
+        ({ encoding, confidence: encodingConfidence } = await detectFileEncoding(file, signal));
+      }
+
+      // Structured formats are parsed when parsing is enabled for the file's format
+      const parseOptions = processingOptions.parse === true ? {} : processingOptions.parse || null;
+      let parseFormat = parseOptions ? getParseFormat(file.name, mimeType) : undefined;
+      if (parseFormat && parseOptions?.formats && !parseOptions.formats.includes(parseFormat)) {
+        parseFormat = undefined;
+      }
+
+      const analyticsOptions = processingOptions.analytics === true ? {} : processingOptions.analytics || null;
+
+      let content: string;
+      let characterCount: number;
+      let wordCount: number;
+      let lineCount: number;
       let checksum: string | undefined;
-      if (processingOptions.calculateChecksum) {
-        checksum = await calculateChecksum(content);
+      let documentMetadata: DocumentMetadata | undefined;
+      let parsed: ParsedContent | undefined;
+      let analytics: TextAnalytics | undefined;
+      let image: ImageInfo | undefined;
+      const inWorker = !!options.worker && !extractor && !isImage;
+
+      if (isImage) {
+        // Images carry no text; dimensions, EXIF data and renditions go on `image`
+        image = await processImage(file, mimeType, processingOptions.image, signal);
+        content = '';
+        characterCount = 0;
+        wordCount = 0;
+        lineCount = 0;
+
+        if (needsChecksum) {
+          checksum = await hashBlob(file, processingOptions.chunkSize, signal);
+        }
+        onProgress(100);
+      } else if (inWorker) {
+        // Read, count, hash and parse in the worker; the file is posted by reference
+        const result = await getTaskRunner().run({
+          type: 'analyzeFile',
+          file,
+          encoding,
+          chunkSize: processingOptions.chunkSize,
+          calculateChecksum: needsChecksum,
+          retainContent: processingOptions.retainContent,
+          parseFormat,
+          parseOptions: parseOptions || undefined,
+          analytics: analyticsOptions || undefined
+        }, { onProgress, signal });
+
+        ({ content, characterCount, wordCount, lineCount, checksum, parsed, analytics } = result);
+      } else if (processingOptions.streaming && !extractor) {
+        // Read chunk by chunk, counting and hashing incrementally
+        const result = await readFileInChunks(file, {
+          chunkSize: processingOptions.chunkSize,
+          encoding,
+          calculateChecksum: needsChecksum,
+          retainContent: processingOptions.retainContent,
+          onProgress,
+          signal
+        });
+
+        ({ content, characterCount, wordCount, lineCount, checksum } = result);
+      } else {
+        if (extractor) {
+          const data = new Uint8Array(await readBlob(file, signal));
+          const extracted = await extractor.extract(data, { fileName: file.name, mimeType, signal });
+          content = extracted.text;
+          documentMetadata = extracted.metadata;
+          onProgress(100);
+        } else {
+          // Read file content
+          content = await new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            const onAbort = () => reader.abort();
+          
+            reader.onload = () => {
+              signal.removeEventListener('abort', onAbort);
+              resolve(reader.result as string);
+            };
+          
+            reader.onerror = () => {
+              signal.removeEventListener('abort', onAbort);
+              reject(new Error('Failed to read file'));
+            };
+
+            reader.onabort = () => {
+              signal.removeEventListener('abort', onAbort);
+              reject(new Error(ABORT_MESSAGE));
+            };
+          
+            reader.onprogress = (event) => {
+              if (event.lengthComputable) {
+                onProgress((event.loaded / event.total) * 100);
+              }
+            };
+
+            signal.addEventListener('abort', onAbort);
+            reader.readAsText(file, encoding);
+          });
+        }
+
+        // Process content and calculate metadata
+        characterCount = content.length;
+        wordCount = countWords(content);
+        lineCount = countLines(content);
+        
+        if (needsChecksum) {
+          checksum = await calculateChecksum(content);
+        }
+      }
+
+      // Parse and analyze the text while it is still in memory; streamed
+      // files that were not retained have nothing to work on
+      const hasContent = !processingOptions.streaming || processingOptions.retainContent !== false;
+      if (parseFormat && parseOptions && !inWorker && hasContent) {
+        parsed = parseContent(content, parseFormat, parseOptions);
+      }
+      if (analyticsOptions && !inWorker && !isImage && hasContent) {
+        analytics = analyzeText(content, analyticsOptions);
+      }
+
+      if (processingOptions.retainContent === false) {
+        content = '';
+      }
+
+      // Checksum calculation cannot be interrupted, so check again afterwards
+      if (signal.aborted) {
+        throw new Error(ABORT_MESSAGE);
       }
 
-      const processedFile: ProcessedFile = {
+      const result = commitProcessedFile({
+        id,
         content,
         fileName: file.name,
+        relativePath: getRelativePath(file),
         fileSize: file.size,
         fileType: file.type,
         lastModified: file.lastModified,
         characterCount,
         wordCount,
         lineCount,
-        encoding: processingOptions.encoding,
-        checksum
-      };
+        encoding: extractor || isImage ? undefined : encoding,
+        encodingConfidence,
+        checksum,
+        documentMetadata,
+        parsed,
+        analytics,
+        image
+      });
 
-      setProgress(100);
-      setProcessedFiles(prev => [...prev, processedFile]);
-      options.onSuccess?.(processedFile);
-      
-      return processedFile;
+      if (!result.skipped) {
+        options.onSuccess?.(result.processedFile);
+      }
+
+      return result;
 
     } catch (error) {
       const fileError: FileProcessorError = {
-        code: 'PROCESSING_ERROR',
-        message: error instanceof Error ? error.message : 'Processing failed',
+        code: signal.aborted ? 'ABORTED' : 'PROCESSING_ERROR',
+        message: signal.aborted ? ABORT_MESSAGE : error instanceof Error ? error.message : 'Processing failed',
         file,
         details: error
       };
-      setError(fileError);
+      if (reserved) {
+        processedKeysRef.current.delete(fileKey);
+      }
       options.onError?.(fileError);
-      return null;
-    } finally {
-      setIsProcessing(false);
-      abortControllerRef.current = null;
+      return { error: fileError };
     }
-  }, [validateFile, countWords, countLines, calculateChecksum, processingOptions, options.onSuccess, options.onError]);
+  }, [checkFile, countWords, countLines, calculateChecksum, commitProcessedFile, getTaskRunner, processingOptions, options.worker, options.onSuccess, options.onError]);
 
   /**
-   * Process multiple files
+   * Process a single file
    */
-  const processFiles = useCallback(async (files: File[]): Promise<ProcessedFile[]> => {
-    const results: ProcessedFile[] = [];
-    
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const result = await processFile(file);
-      if (result) {
-        results.push(result);
+  const processFile = useCallback(async (
+    file: File,
+    processOptions: ProcessFileOptions = {}
+  ): Promise<ProcessedFile | null> => {
+    setIsProcessing(true);
+    setProgress(0);
+    setError(null);
+
+    // Create abort controller for this operation, following any external signal
+    const controller = new AbortController();
+    const unlinkSignal = linkAbortSignal(controller, processOptions.signal);
+    activeOperationsRef.current.set(controller, 'file');
+
+    try {
+      const { processedFile, error: fileError } = await runFile(
+        file,
+        createFileId(),
+        controller.signal,
+        progress => {
+          setProgress(progress);
+          processingOptions.onProgress?.(progress);
+        },
+        () => undefined
+      );
+
+      if (!processedFile) {
+        setError(fileError || null);
+        return null;
       }
-      
-      // Update overall progress
-      const overallProgress = ((i + 1) / files.length) * 100;
+
+      setProgress(100);
+      return processedFile;
+    } finally {
+      unlinkSignal();
+      activeOperationsRef.current.delete(controller);
+      setIsProcessing(activeOperationsRef.current.size > 0);
+    }
+  }, [runFile, processingOptions]);
+
+  /**
+   * Process multiple files, up to `concurrency` at a time, tracking the status
+   * of each file and byte-weighted progress for the whole batch
+   */
+  const processFiles = useCallback(async (
+    inputFiles: File[],
+    processOptions: ProcessFilesOptions = {}
+  ): Promise<ProcessedFile[]> => {
+    const files = filterFiles(inputFiles, options.filter);
+
+    // Batch limits are enforced before any file is read
+    const batchError = checkBatch(files);
+    if (batchError) {
+      setError(batchError);
+      options.onError?.(batchError);
+      return [];
+    }
+
+    const results: (ProcessedFile | undefined)[] = new Array(files.length);
+    const concurrency = Math.max(1, processOptions.concurrency || processingOptions.concurrency || 1);
+
+    // One controller for the whole batch so an abort stops the remaining files
+    // Statuses of batches that are still running are kept alongside this one
+    const batchController = new AbortController();
+    const unlinkSignal = linkAbortSignal(batchController, processOptions.signal);
+    const mergeStatuses = Array.from(activeOperationsRef.current.values()).includes('batch');
+    activeOperationsRef.current.set(batchController, 'batch');
+
+    // Empty files still count for one byte so they move the progress bar
+    const weights = files.map(file => Math.max(file.size, 1));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const statuses: FileProcessingStatus[] = files.map(file => ({
+      id: createFileId(),
+      file,
+      fileName: file.name,
+      status: 'queued',
+      progress: 0
+    }));
+
+    const updateStatus = (index: number, update: Partial<FileProcessingStatus>) => {
+      statuses[index] = { ...statuses[index], ...update };
+      setFileStatuses(prev => ({ ...prev, [statuses[index].id]: statuses[index] }));
+
+      const processedWeight = statuses.reduce((sum, status, i) => sum + (weights[i] * status.progress) / 100, 0);
+      const overallProgress = totalWeight > 0 ? (processedWeight / totalWeight) * 100 : 100;
       setProgress(overallProgress);
+      processingOptions.onProgress?.(overallProgress);
+    };
+
+    setIsProcessing(true);
+    setProgress(0);
+    setError(null);
+    setFileStatuses(prev => ({
+      ...(mergeStatuses ? prev : {}),
+      ...Object.fromEntries(statuses.map(status => [status.id, status]))
+    }));
+
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < files.length && !batchController.signal.aborted) {
+        const index = nextIndex++;
+        const controller = new AbortController();
+        const unlinkFile = linkAbortSignal(controller, batchController.signal);
+
+        try {
+          const { processedFile, skipped, error: fileError } = await runFile(
+            files[index],
+            statuses[index].id,
+            controller.signal,
+            progress => updateStatus(index, { progress }),
+            stage => updateStatus(index, { status: stage })
+          );
+
+          if (processedFile) {
+            results[index] = processedFile;
+            // A replacement takes over the replaced file's id, so its status moves to that id
+            const previousId = statuses[index].id;
+            if (!skipped && processedFile.id !== previousId) {
+              statuses[index] = { ...statuses[index], id: processedFile.id };
+              setFileStatuses(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== previousId)));
+            }
+            updateStatus(index, { status: skipped ? 'skipped' : 'done', progress: 100, result: processedFile });
+          } else {
+            updateStatus(index, {
+              status: fileError?.code === 'ABORTED' ? 'aborted' : 'failed',
+              progress: 100,
+              error: fileError
+            });
+            setError(fileError || null);
+          }
+        } finally {
+          unlinkFile();
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+
+      // Files that never started because the batch was cancelled
+      statuses.forEach((status, index) => {
+        if (status.status === 'queued') {
+          updateStatus(index, { status: 'aborted' });
+        }
+      });
+    } finally {
+      unlinkSignal();
+      activeOperationsRef.current.delete(batchController);
+      setIsProcessing(activeOperationsRef.current.size > 0);
     }
     
-    return results;
-  }, [processFile]);
+    return results.filter((result): result is ProcessedFile => result !== undefined);
+  }, [runFile, checkBatch, processingOptions, options.filter, options.onError]);
 
   /**
-   * Abort current processing operation
+   * Abort every running processing operation
    */
   const abortProcessing = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
+    if (activeOperationsRef.current.size > 0) {
+      Array.from(activeOperationsRef.current.keys()).forEach(controller => controller.abort());
       setIsProcessing(false);
       setProgress(0);
     }
@@ -284,17 +1070,44 @@ export const useFileProcessor = (options: UseFileProcessorOptions = {}) => {
    * Clear processed files and reset state
    */
   const clearProcessedFiles = useCallback(() => {
-    setProcessedFiles([]);
+    processedKeysRef.current.clear();
+    updateProcessedFiles([]);
+    setFileStatuses({});
     setError(null);
     setProgress(0);
+    void collectionRef.current?.clear();
+  }, [updateProcessedFiles]);
+
+  /**
+   * Mark a looked-up file as recently used, so eviction keeps it longer
+   */
+  const touchProcessedFile = useCallback((file: ProcessedFile | undefined): ProcessedFile | undefined => {
+    if (file) {
+      collectionRef.current?.touch(file.id);
+    }
+    return file;
   }, []);
 
   /**
    * Get file by name from processed files
    */
   const getProcessedFile = useCallback((fileName: string): ProcessedFile | undefined => {
-    return processedFiles.find(file => file.fileName === fileName);
-  }, [processedFiles]);
+    return touchProcessedFile(processedFiles.find(file => file.fileName === fileName));
+  }, [processedFiles, touchProcessedFile]);
+
+  /**
+   * Get file by id from processed files
+   */
+  const getProcessedFileById = useCallback((id: string): ProcessedFile | undefined => {
+    return touchProcessedFile(processedFiles.find(file => file.id === id));
+  }, [processedFiles, touchProcessedFile]);
+
+  /**
+   * Get file by content checksum from processed files
+   */
+  const getProcessedFileByChecksum = useCallback((checksum: string): ProcessedFile | undefined => {
+    return touchProcessedFile(processedFiles.find(file => file.checksum === checksum));
+  }, [processedFiles, touchProcessedFile]);
 
   return {
     // State
@@ -302,6 +1115,8 @@ export const useFileProcessor = (options: UseFileProcessorOptions = {}) => {
     progress,
     error,
     processedFiles,
+    fileStatuses,
+    isRestoring,
     
     // Actions
     processFile,
@@ -310,6 +1125,8 @@ export const useFileProcessor = (options: UseFileProcessorOptions = {}) => {
     clearProcessedFiles,
     validateFile,
     getProcessedFile,
+    getProcessedFileById,
+    getProcessedFileByChecksum,
     
     // Utilities
     countWords,
@@ -318,49 +1135,20 @@ export const useFileProcessor = (options: UseFileProcessorOptions = {}) => {
   };
 };
 
-/**
- * Hook for drag and drop file handling
- */
-export const useFileDrop = (options: UseFileProcessorOptions = {}) => {
-  const [isDragOver, setIsDragOver] = useState(false);
-  const fileProcessor = useFileProcessor(options);
-
-  const handleDragOver = useCallback((event: React.DragEvent) => {
-    event.preventDefault();
-    setIsDragOver(true);
-  }, []);
-
-  const handleDragLeave = useCallback((event: React.DragEvent) => {
-    event.preventDefault();
-    setIsDragOver(false);
-  }, []);
-
-  const handleDrop = useCallback(async (event: React.DragEvent) => {
-    event.preventDefault();
-    setIsDragOver(false);
-
-    const files = Array.from(event.dataTransfer.files);
-    if (files.length > 0) {
-      await fileProcessor.processFiles(files);
-    }
-  }, [fileProcessor]);
-
-  return {
-    ...fileProcessor,
-    isDragOver,
-    handleDragOver,
-    handleDragLeave,
-    handleDrop
-  };
-};
-
 /**
  * Hook for file input handling
  */
-export const useFileInput = (options: UseFileProcessorOptions = {}) => {
+export const useFileInput = (options: UseFileInputOptions = {}) => {
   const fileProcessor = useFileProcessor(options);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  // React does not know webkitdirectory, so set it on the element directly
+  useEffect(() => {
+    if (inputRef.current) {
+      inputRef.current.webkitdirectory = !!options.directory;
+    }
+  }, [options.directory]);
+
   const openFileDialog = useCallback(() => {
     inputRef.current?.click();
   }, []);
@@ -384,3 +1172,195 @@ export const useFileInput = (options: UseFileProcessorOptions = {}) => {
     handleFileChange
   };
 };
+
+/**
+ * Judge a drag by the MIME types of its items, which browsers expose before the
+ * drop. Items without a type, such as folders, cannot be judged and pass.
+ */
+const isDragAcceptable = (dataTransfer: DataTransfer, allowedTypes?: string[], maxFiles?: number): boolean => {
+  if (!dataTransfer.items) {
+    return Array.from(dataTransfer.types).includes('Files');
+  }
+
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  if (items.length === 0 || (maxFiles && items.length > maxFiles)) {
+    return false;
+  }
+
+  return !allowedTypes || items.every(item => !item.type || allowedTypes.some(pattern => matchesMimeType(item.type, pattern)));
+};
+
+/**
+ * Run a handler passed to a props getter before the hook's own
+ */
+const chainHandlers = <E,>(userHandler: ((event: E) => void) | undefined, handler: (event: E) => void) => {
+  return (event: E) => {
+    userHandler?.(event);
+    handler(event);
+  };
+};
+
+/**
+ * Hook for drag and drop file handling
+ */
+export const useFileDrop = (options: UseFileDropOptions = {}) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isDragAccept, setIsDragAccept] = useState(false);
+  const [isDragReject, setIsDragReject] = useState(false);
+  const fileInput = useFileInput(options);
+  const { inputRef, openFileDialog, handleFileChange, processFiles } = fileInput;
+
+  // dragenter and dragleave fire for every child the pointer crosses, so count them
+  const dragDepthRef = useRef(0);
+
+  const validationOptions = { ...DEFAULT_VALIDATION, ...options.validation };
+
+  const resetDragState = useCallback(() => {
+    dragDepthRef.current = 0;
+    setIsDragOver(false);
+    setIsDragAccept(false);
+    setIsDragReject(false);
+  }, []);
+
+  const startDrag = useCallback((dataTransfer: DataTransfer) => {
+    const acceptable = isDragAcceptable(dataTransfer, validationOptions.allowedTypes, validationOptions.maxFiles);
+    setIsDragOver(true);
+    setIsDragAccept(acceptable);
+    setIsDragReject(!acceptable);
+  }, [validationOptions.allowedTypes, validationOptions.maxFiles]);
+
+  const handleDragEnter = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    dragDepthRef.current++;
+    if (dragDepthRef.current === 1) {
+      startDrag(event.dataTransfer);
+    }
+  }, [startDrag]);
+
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+
+    // Zones wired without onDragEnter start the drag state here instead
+    if (dragDepthRef.current === 0) {
+      dragDepthRef.current = 1;
+      startDrag(event.dataTransfer);
+    }
+  }, [startDrag]);
+
+  const handleDragLeave = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      resetDragState();
+    }
+  }, [resetDragState]);
+
+  const handleDrop = useCallback(async (event: React.DragEvent) => {
+    event.preventDefault();
+    resetDragState();
+
+    // Dropped folders are walked recursively; excluded folders are never read
+    let files: File[];
+    try {
+      files = await collectDataTransferFiles(event.dataTransfer, options.filter);
+    } catch (error) {
+      const dropError: FileProcessorError = {
+        code: 'PROCESSING_ERROR',
+        message: error instanceof Error ? error.message : 'Dropped files could not be read',
+        details: error
+      };
+      options.onError?.(dropError);
+      return;
+    }
+
+    if (files.length > 0) {
+      await processFiles(files);
+    }
+  }, [processFiles, resetDragState, options.filter, options.onError]);
+
+  /**
+   * Process files and images pasted from the clipboard; text pastes pass through
+   */
+  const handlePaste = useCallback(async (event: React.ClipboardEvent | ClipboardEvent) => {
+    const files = collectClipboardFiles(event.clipboardData);
+    if (files.length > 0) {
+      event.preventDefault();
+      await processFiles(files);
+    }
+  }, [processFiles]);
+
+  // A drop that misses the zone would otherwise make the browser open the file
+  useEffect(() => {
+    if (options.preventWindowDrop === false) {
+      return undefined;
+    }
+
+    const preventFileDrop = (event: DragEvent) => {
+      if (event.dataTransfer && Array.from(event.dataTransfer.types).includes('Files')) {
+        event.preventDefault();
+      }
+    };
+
+    window.addEventListener('dragover', preventFileDrop);
+    window.addEventListener('drop', preventFileDrop);
+    return () => {
+      window.removeEventListener('dragover', preventFileDrop);
+      window.removeEventListener('drop', preventFileDrop);
+    };
+  }, [options.preventWindowDrop]);
+
+  /**
+   * Props for the drop zone: drag and paste handling, plus click and
+   * Enter/Space to open the file dialog
+   */
+  const getRootProps = useCallback((props: React.HTMLAttributes<HTMLElement> = {}): React.HTMLAttributes<HTMLElement> => ({
+    role: 'button',
+    tabIndex: 0,
+    ...props,
+    onDragEnter: chainHandlers(props.onDragEnter, handleDragEnter),
+    onDragOver: chainHandlers(props.onDragOver, handleDragOver),
+    onDragLeave: chainHandlers(props.onDragLeave, handleDragLeave),
+    onDrop: chainHandlers(props.onDrop, handleDrop),
+    onPaste: chainHandlers(props.onPaste, handlePaste),
+    onClick: chainHandlers(props.onClick, openFileDialog),
+    onKeyDown: chainHandlers(props.onKeyDown, (event: React.KeyboardEvent<HTMLElement>) => {
+      if (event.target === event.currentTarget && (event.key === 'Enter' || event.key === ' ')) {
+        event.preventDefault();
+        openFileDialog();
+      }
+    })
+  }), [handleDragEnter, handleDragOver, handleDragLeave, handleDrop, handlePaste, openFileDialog]);
+
+  /**
+   * Props for the hidden file input inside the drop zone
+   */
+  const getInputProps = useCallback((
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ): React.InputHTMLAttributes<HTMLInputElement> & { ref: React.RefObject<HTMLInputElement> } => ({
+    type: 'file',
+    multiple: true,
+    accept: [...(validationOptions.allowedTypes || []), ...(validationOptions.allowedExtensions || [])].join(',') || undefined,
+    tabIndex: -1,
+    style: { display: 'none' },
+    ...props,
+    ref: inputRef,
+    onChange: chainHandlers(props.onChange, handleFileChange),
+    // The dialog's own click must not bubble to the zone and reopen it
+    onClick: chainHandlers(props.onClick, (event: React.MouseEvent<HTMLInputElement>) => event.stopPropagation())
+  }), [inputRef, handleFileChange, validationOptions.allowedTypes, validationOptions.allowedExtensions]);
+
+  return {
+    ...fileInput,
+    isDragOver,
+    isDragAccept,
+    isDragReject,
+    handleDragEnter,
+    handleDragOver,
+    handleDragLeave,
+    handleDrop,
+    handlePaste,
+    getRootProps,
+    getInputProps
+  };
+};
@@ -0,0 +1,474 @@
+/**
+ * React File Upload Hook
+ *
+ * Uploads files in fixed-size chunks through a pluggable transport, retrying
+ * failed chunks with exponential backoff. Uploads can be paused, resumed and
+ * cancelled, and a manifest keyed by the file's checksum lets an interrupted
+ * upload continue after a page reload.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { hashBlob } from './fileStreamReader';
+import {
+  createLocalStorageManifestStore,
+  UploadChunk,
+  UploadChunkHandler,
+  UploadManifestStore,
+  UploadTarget,
+  UploadTransport
+} from './uploadTransports';
+
+export {
+  createFetchTransport,
+  createLocalStorageManifestStore,
+  createMemoryManifestStore,
+  createXHRTransport
+} from './uploadTransports';
+export type {
+  HttpTransportOptions,
+  UploadChunk,
+  UploadChunkHandler,
+  UploadManifest,
+  UploadManifestStore,
+  UploadTarget,
+  UploadTransport
+} from './uploadTransports';
+
+// Types and Interfaces
+export type UploadStatus = 'hashing' | 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export type UploadErrorCode = 'UPLOAD_FAILED' | 'ABORTED';
+
+export interface FileUploadError {
+  code: UploadErrorCode;
+  message: string;
+  file?: File;
+  details?: any;
+}
+
+export interface FileUpload {
+  id: string;
+  file: File;
+  fileName: string;
+  status: UploadStatus;
+  progress: number;
+  uploadedBytes: number;
+  totalBytes: number;
+  uploadedChunks: number;
+  totalChunks: number;
+  checksum?: string;
+  uploadId?: string;
+  resumed: boolean;
+  response?: unknown;
+  error?: FileUploadError;
+}
+
+export interface UseFileUploadOptions {
+  transport: UploadTransport | UploadChunkHandler;
+  chunkSize?: number; // in bytes
+  concurrency?: number; // files uploaded at once by uploadFiles
+  maxRetries?: number; // per chunk
+  retryDelay?: number; // first retry delay in ms, doubled on each attempt
+  maxRetryDelay?: number;
+  manifestStore?: UploadManifestStore | null; // null disables resumption
+  onError?: (error: FileUploadError) => void;
+  onSuccess?: (upload: FileUpload) => void;
+}
+
+export interface UploadFileOptions {
+  id?: string; // e.g. the id of the matching ProcessedFile
+}
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1MB
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+
+const ABORT_MESSAGE = 'Operation was aborted';
+
+let uploadCounter = 0;
+
+/**
+ * Delay before retry `attempt` (starting at 1): the base delay doubles each time, up to the cap
+ */
+export const getRetryDelay = (attempt: number, baseDelay: number, maxDelay: number): number => {
+  return Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+};
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+const wait = (delay: number, signal: AbortSignal): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error(ABORT_MESSAGE));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(ABORT_MESSAGE));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+
+    signal.addEventListener('abort', onAbort);
+  });
+};
+
+const isFinished = (upload: FileUpload): boolean => {
+  return upload.status === 'completed' || upload.status === 'failed' || upload.status === 'cancelled';
+};
+
+/**
+ * Main file upload hook
+ */
+export const useFileUpload = (options: UseFileUploadOptions) => {
+  const [uploads, setUploads] = useState<Record<string, FileUpload>>({});
+
+  // Mirrors uploads so running loops and controls always see the latest state
+  const uploadsRef = useRef<Record<string, FileUpload>>({});
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const stopReasonsRef = useRef<Map<string, 'pause' | 'cancel'>>(new Map());
+  const manifestStoreRef = useRef<UploadManifestStore | null | undefined>(undefined);
+
+  if (manifestStoreRef.current === undefined) {
+    manifestStoreRef.current = options.manifestStore === undefined
+      ? createLocalStorageManifestStore()
+      : options.manifestStore;
+  }
+
+  const transport: UploadTransport = typeof options.transport === 'function'
+    ? { uploadChunk: options.transport }
+    : options.transport;
+
+  // Leaving the page mid-upload pauses it, so the manifest is kept for resuming
+  useEffect(() => () => {
+    controllersRef.current.forEach((controller, id) => {
+      stopReasonsRef.current.set(id, 'pause');
+      controller.abort();
+    });
+  }, []);
+
+  const updateUpload = useCallback((id: string, update: Partial<FileUpload>): FileUpload => {
+    const upload = { ...uploadsRef.current[id], ...update };
+    uploadsRef.current = { ...uploadsRef.current, [id]: upload };
+    setUploads(uploadsRef.current);
+    return upload;
+  }, []);
+
+  /**
+   * Upload one chunk, retrying with exponential backoff
+   */
+  const uploadChunk = useCallback(async (
+    target: UploadTarget,
+    chunk: UploadChunk,
+    signal: AbortSignal,
+    onProgress: (loadedBytes: number) => void
+  ): Promise<void> => {
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await transport.uploadChunk(target, chunk, { signal, onProgress });
+        return;
+      } catch (error) {
+        if (signal.aborted || attempt >= maxRetries) {
+          throw error;
+        }
+        onProgress(0);
+        await wait(
+          getRetryDelay(attempt + 1, options.retryDelay ?? DEFAULT_RETRY_DELAY, options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY),
+          signal
+        );
+      }
+    }
+  }, [transport, options.maxRetries, options.retryDelay, options.maxRetryDelay]);
+
+  /**
+   * Hash, resume from the manifest and upload the remaining chunks of an upload
+   */
+  const runUpload = useCallback(async (id: string): Promise<FileUpload | null> => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    controllersRef.current.set(id, controller);
+    stopReasonsRef.current.delete(id);
+
+    const { file } = uploadsRef.current[id];
+    const chunkSize = Math.max(1, options.chunkSize || DEFAULT_CHUNK_SIZE);
+    // An empty file still takes one (empty) chunk so the backend sees it
+    const totalChunks = Math.max(1, Math.ceil(file.size / chunkSize));
+    let target: UploadTarget | null = null;
+
+    // The manifest only makes the upload resumable, so a failing store (such as
+    // a full localStorage) is dropped for this upload instead of failing it
+    let store = manifestStoreRef.current;
+    const withStore = async <T>(operation: (manifestStore: UploadManifestStore) => T | Promise<T>): Promise<T | null> => {
+      if (!store) {
+        return null;
+      }
+      try {
+        return await operation(store);
+      } catch {
+        store = null;
+        return null;
+      }
+    };
+
+    try {
+      let checksum = uploadsRef.current[id].checksum;
+      if (!checksum) {
+        updateUpload(id, { status: 'hashing' });
+        checksum = await hashBlob(file, chunkSize, signal);
+      }
+
+      // A manifest only applies to the same file cut into the same chunks
+      const manifest = await withStore(manifestStore => manifestStore.get(checksum!));
+      const resumable = manifest && manifest.fileSize === file.size && manifest.chunkSize === chunkSize ? manifest : null;
+
+      let uploadId = uploadsRef.current[id].uploadId || resumable?.uploadId;
+      if (!uploadId) {
+        uploadId = transport.createUpload
+          ? await transport.createUpload({ file, checksum, chunkSize, totalChunks }, signal)
+          : checksum;
+      }
+      target = { uploadId, file, checksum, chunkSize, totalChunks };
+
+      const completed = new Set(resumable?.completedChunks || []);
+      const getChunkRange = (index: number) => ({
+        start: index * chunkSize,
+        end: Math.min(file.size, (index + 1) * chunkSize)
+      });
+      let uploadedBytes = Array.from(completed).reduce((sum, index) => {
+        const { start, end } = getChunkRange(index);
+        return sum + end - start;
+      }, 0);
+
+      const saveManifest = async () => {
+        await withStore(manifestStore => manifestStore.set({
+          checksum: checksum!,
+          uploadId: uploadId!,
+          fileName: file.name,
+          fileSize: file.size,
+          chunkSize,
+          completedChunks: Array.from(completed),
+          updatedAt: Date.now()
+        }));
+      };
+
+      const reportProgress = (bytes: number) => {
+        updateUpload(id, {
+          uploadedBytes: bytes,
+          uploadedChunks: completed.size,
+          progress: file.size > 0 ? (bytes / file.size) * 100 : (completed.size / totalChunks) * 100
+        });
+      };
+
+      updateUpload(id, {
+        status: 'uploading',
+        checksum,
+        uploadId,
+        totalChunks,
+        resumed: uploadsRef.current[id].resumed || (!!resumable && completed.size > 0)
+      });
+      reportProgress(uploadedBytes);
+      await saveManifest();
+
+      for (let index = 0; index < totalChunks; index++) {
+        if (completed.has(index)) {
+          continue;
+        }
+
+        const { start, end } = getChunkRange(index);
+        const chunk: UploadChunk = { index, start, end, data: file.slice(start, end) };
+        await uploadChunk(target, chunk, signal, loaded => reportProgress(uploadedBytes + Math.min(loaded, end - start)));
+
+        completed.add(index);
+        uploadedBytes += end - start;
+        reportProgress(uploadedBytes);
+        await saveManifest();
+      }
+
+      const response = await transport.completeUpload?.(target, signal);
+      await withStore(manifestStore => manifestStore.delete(checksum!));
+
+      const upload = updateUpload(id, { status: 'completed', progress: 100, response });
+      options.onSuccess?.(upload);
+      return upload;
+
+    } catch (error) {
+      const stopReason = stopReasonsRef.current.get(id);
+
+      if (stopReason === 'pause') {
+        updateUpload(id, { status: 'paused' });
+        return null;
+      }
+
+      if (stopReason === 'cancel') {
+        updateUpload(id, { status: 'cancelled' });
+        if (target) {
+          const { checksum } = target;
+          await withStore(manifestStore => manifestStore.delete(checksum));
+          await transport.abortUpload?.(target).catch(() => undefined);
+        }
+        return null;
+      }
+
+      const uploadError: FileUploadError = {
+        code: signal.aborted ? 'ABORTED' : 'UPLOAD_FAILED',
+        message: error instanceof Error ? error.message : 'Upload failed',
+        file,
+        details: error
+      };
+      updateUpload(id, { status: 'failed', error: uploadError });
+      options.onError?.(uploadError);
+      return null;
+
+    } finally {
+      if (controllersRef.current.get(id) === controller) {
+        controllersRef.current.delete(id);
+      }
+      stopReasonsRef.current.delete(id);
+    }
+  }, [transport, uploadChunk, updateUpload, options.chunkSize, options.onSuccess, options.onError]);
+
+  /**
+   * Upload a file. Resolves with the finished upload, or null when it was
+   * paused, cancelled or failed.
+   */
+  const upload = useCallback((file: File, uploadOptions: UploadFileOptions = {}): Promise<FileUpload | null> => {
+    const id = uploadOptions.id || `upload-${++uploadCounter}`;
+    if (controllersRef.current.has(id)) {
+      return Promise.resolve(null);
+    }
+
+    updateUpload(id, {
+      id,
+      file,
+      fileName: file.name,
+      status: 'hashing',
+      progress: 0,
+      uploadedBytes: 0,
+      totalBytes: file.size,
+      uploadedChunks: 0,
+      totalChunks: 0,
+      checksum: undefined,
+      uploadId: undefined,
+      resumed: false,
+      response: undefined,
+      error: undefined
+    });
+
+    return runUpload(id);
+  }, [runUpload, updateUpload]);
+
+  /**
+   * Upload several files, up to `concurrency` at a time
+   */
+  const uploadFiles = useCallback(async (files: File[]): Promise<(FileUpload | null)[]> => {
+    const results: (FileUpload | null)[] = new Array(files.length).fill(null);
+    const concurrency = Math.max(1, options.concurrency || 1);
+
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < files.length) {
+        const index = nextIndex++;
+        results[index] = await upload(files[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+    return results;
+  }, [upload, options.concurrency]);
+
+  /**
+   * Pause an upload; the chunk in flight is abandoned and sent again on resume
+   */
+  const pause = useCallback((id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      stopReasonsRef.current.set(id, 'pause');
+      controller.abort();
+    }
+  }, []);
+
+  /**
+   * Resume a paused or failed upload from its last completed chunk
+   */
+  const resume = useCallback((id: string): Promise<FileUpload | null> => {
+    const current = uploadsRef.current[id];
+    if (!current || controllersRef.current.has(id) || (current.status !== 'paused' && current.status !== 'failed')) {
+      return Promise.resolve(null);
+    }
+
+    updateUpload(id, { error: undefined });
+    return runUpload(id);
+  }, [runUpload, updateUpload]);
+
+  /**
+   * Cancel an upload and forget its manifest
+   */
+  const cancel = useCallback(async (id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      stopReasonsRef.current.set(id, 'cancel');
+      controller.abort();
+      return;
+    }
+
+    // Paused and failed uploads have no running loop to clean up after them
+    const current = uploadsRef.current[id];
+    if (current && (current.status === 'paused' || current.status === 'failed')) {
+      updateUpload(id, { status: 'cancelled' });
+      if (current.checksum) {
+        await manifestStoreRef.current?.delete(current.checksum);
+        if (current.uploadId) {
+          const chunkSize = Math.max(1, options.chunkSize || DEFAULT_CHUNK_SIZE);
+          await transport.abortUpload?.({
+            uploadId: current.uploadId,
+            file: current.file,
+            checksum: current.checksum,
+            chunkSize,
+            totalChunks: current.totalChunks
+          }).catch(() => undefined);
+        }
+      }
+    }
+  }, [transport, updateUpload, options.chunkSize]);
+
+  /**
+   * Remove completed, failed and cancelled uploads from the list
+   */
+  const clearFinishedUploads = useCallback(() => {
+    uploadsRef.current = Object.fromEntries(
+      Object.entries(uploadsRef.current).filter(([, upload]) => !isFinished(upload))
+    );
+    setUploads(uploadsRef.current);
+  }, []);
+
+  const uploadList = Object.values(uploads);
+  const activeUploads = uploadList.filter(upload => upload.status === 'hashing' || upload.status === 'uploading');
+  const trackedUploads = uploadList.filter(upload => upload.status !== 'cancelled');
+  const totalBytes = trackedUploads.reduce((sum, upload) => sum + upload.totalBytes, 0);
+  const uploadedBytes = trackedUploads.reduce((sum, upload) => sum + upload.uploadedBytes, 0);
+
+  return {
+    // State
+    uploads,
+    isUploading: activeUploads.length > 0,
+    progress: totalBytes > 0 ? (uploadedBytes / totalBytes) * 100 : 0,
+
+    // Actions
+    upload,
+    uploadFiles,
+    pause,
+    resume,
+    cancel,
+    clearFinishedUploads
+  };
+};
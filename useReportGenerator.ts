@@ -9,11 +9,56 @@
  * @license MIT
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ReportSheets } from './xlsxWriter';
+import { TemplateOptions } from './templateEngine';
+import { ReportColumns } from './reportColumns';
+import { aggregateRows, groupReportData, ReportGrouping } from './reportGrouping';
+import { createReportStream, ReportSource, StreamReportOptions, streamReportToBlob } from './reportStream';
+import { createTaskRunner, TaskRunner, WorkerFactory } from './workerClient';
+import {
+  CollectionChange,
+  createPersistentCollection,
+  createRecordId,
+  PersistenceOptions,
+  PersistentCollection
+} from './persistence';
+import {
+  generateJSON,
+  generateCSV,
+  generateHTML,
+  generateText,
+  generatePDF,
+  generateXLSX
+} from './reportRenderers';
+
+export type { TemplateFormatter, TemplateOptions } from './templateEngine';
+
+export type { ReportSheets } from './xlsxWriter';
+
+export type { ColumnAlign, ColumnType, ReportColumn, ReportColumns } from './reportColumns';
+
+export type {
+  AggregateFunction,
+  AggregateResult,
+  GroupedReportData,
+  ReportAggregate,
+  ReportGroup,
+  ReportGrouping
+} from './reportGrouping';
+
+export type {
+  ReportPageFetcher,
+  ReportSource,
+  StreamReportFormat,
+  StreamReportOptions
+} from './reportStream';
 
 // Types and Interfaces
 export type ReportFormat = 'json' | 'csv' | 'html' | 'pdf' | 'xlsx' | 'txt';
 
+export type GeneratedReportFormat = ReportFormat | 'ndjson' | 'zip';
+
 export interface ReportData {
   [key: string]: any;
 }
@@ -31,8 +76,15 @@ export interface ReportOptions {
   filename?: string;
   format: ReportFormat;
   metadata?: ReportMetadata;
+  columns?: ReportColumns; // applied to every sheet of an xlsx workbook
+  sheets?: boolean; // the data is a map of sheet name to rows, one xlsx sheet each
+  locale?: string | string[]; // for column formatters, default the runtime locale
+  grouping?: ReportGrouping; // grouped sections with subtotals in html, csv, txt and json
+  csv?: CSVReportOptions;
   template?: string;
+  templateOptions?: TemplateOptions;
   styling?: ReportStyling;
+  html?: HTMLReportOptions;
   compression?: boolean;
   includeTimestamp?: boolean;
 }
@@ -45,279 +97,168 @@ export interface ReportStyling {
   customCSS?: string;
 }
 
+export interface HTMLReportOptions {
+  interactive?: boolean | { sortable?: boolean; filterable?: boolean };
+  contentSecurityPolicy?: boolean; // default true
+  nonce?: string; // added to the inline style and script for pages with a nonce-based CSP
+}
+
+export interface CSVReportOptions {
+  delimiter?: string; // default ','; ';', '\t' and '|' are common alternatives
+  quote?: 'minimal' | 'all'; // default 'minimal': only fields that need it
+  lineEnding?: '\n' | '\r\n'; // default '\n'
+  bom?: boolean; // prefix a UTF-8 byte order mark so Excel detects the encoding
+  header?: boolean; // default true
+  nullValue?: string; // text for null and undefined values, default ''
+  flatten?: boolean; // expand nested objects into dotted columns when no columns are given
+  sanitizeFormulas?: boolean; // default true: prefix text starting with = + - @ with a quote
+}
+
 export interface GeneratedReport {
+  id: string;
   blob: Blob;
   filename: string;
   size: number;
-  format: ReportFormat;
+  format: GeneratedReportFormat;
   downloadUrl: string;
+  compression?: 'gzip' | 'zip';
+  uncompressedSize?: number;
+}
+
+export interface UseReportGeneratorOptions {
+  worker?: WorkerFactory;
+  persistence?: PersistenceOptions;
 }
 
+// Object URLs do not survive a reload, so reports are stored without one
+type StoredReport = Omit<GeneratedReport, 'downloadUrl'>;
+
+/**
+ * Give a stored report a fresh object URL
+ */
+const restoreReport = (report: StoredReport): GeneratedReport => ({
+  ...report,
+  downloadUrl: URL.createObjectURL(report.blob)
+});
+
 export interface ReportGeneratorError {
   code: string;
   message: string;
   details?: any;
 }
 
-// Default styling options
-const DEFAULT_STYLING: ReportStyling = {
-  theme: 'light',
-  primaryColor: '#3b82f6',
-  fontFamily: 'system-ui, -apple-system, sans-serif',
-  fontSize: '14px'
-};
-
 /**
  * Main report generator hook
  */
-export const useReportGenerator = () => {
+export const useReportGenerator = (generatorOptions: UseReportGeneratorOptions = {}) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [rowsProcessed, setRowsProcessed] = useState(0);
   const [error, setError] = useState<ReportGeneratorError | null>(null);
   const [generatedReports, setGeneratedReports] = useState<GeneratedReport[]>([]);
+  const [isRestoring, setIsRestoring] = useState(!!generatorOptions.persistence);
+
+  // Rendering runs in the worker when one is configured, otherwise on the main thread
+  const taskRunnerRef = useRef<TaskRunner | null>(null);
+  const collectionRef = useRef<PersistentCollection<StoredReport> | null>(null);
+
+  useEffect(() => () => {
+    taskRunnerRef.current?.terminate();
+    taskRunnerRef.current = null;
+  }, []);
 
   /**
-   * Generate filename with timestamp if needed
+   * Get the task runner, starting the worker on first use
    */
-  const generateFilename = useCallback((options: ReportOptions): string => {
-    let filename = options.filename || 'report';
-    
-    if (options.includeTimestamp !== false) {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-      filename = `${filename}_${timestamp}`;
+  const getTaskRunner = useCallback((): TaskRunner => {
+    if (!taskRunnerRef.current) {
+      taskRunnerRef.current = createTaskRunner(generatorOptions.worker);
     }
-    
-    return `${filename}.${options.format}`;
-  }, []);
+    return taskRunnerRef.current;
+  }, [generatorOptions.worker]);
 
   /**
-   * Convert data to JSON format
+   * Drop reports from the list and free their object URLs
    */
-  const generateJSON = useCallback((data: ReportData, options: ReportOptions): string => {
-    const reportContent = {
-      metadata: options.metadata,
-      data,
-      generatedAt: new Date().toISOString()
-    };
-    
-    return JSON.stringify(reportContent, null, 2);
+  const removeReports = useCallback((ids: string[]) => {
+    setGeneratedReports(prev => prev.filter(report => {
+      if (ids.includes(report.id)) {
+        URL.revokeObjectURL(report.downloadUrl);
+        return false;
+      }
+      return true;
+    }));
   }, []);
 
-  /**
-   * Convert data to CSV format
-   */
-  const generateCSV = useCallback((data: ReportData[], options: ReportOptions): string => {
-    if (!Array.isArray(data) || data.length === 0) {
-      return '';
+  // Restore reports saved by earlier sessions and follow changes made in other tabs.
+  // The collection is reopened when the adapter or limits change, so create the adapter outside the component.
+  // Callbacks are read through a ref, so new onEvict and onError functions do not reopen it.
+  const persistenceRef = useRef(generatorOptions.persistence);
+  persistenceRef.current = generatorOptions.persistence;
+  const { adapter, maxBytes, maxEntries, sync } = generatorOptions.persistence || {};
+  useEffect(() => {
+    if (!adapter) {
+      return;
     }
 
-    // Get all unique keys from all objects
-    const allKeys = Array.from(new Set(data.flatMap(Object.keys)));
-    
-    // Create header row
-    const csvRows = [allKeys.join(',')];
-    
-    // Create data rows
-    data.forEach(item => {
-      const row = allKeys.map(key => {
-        const value = item[key];
-        if (value === null || value === undefined) {
-          return '';
-        }
-        
-        // Escape quotes and wrap in quotes if contains comma, quote, or newline
-        const stringValue = String(value);
-        if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-          return `"${stringValue.replace(/"/g, '""')}"`;
-        }
-        
-        return stringValue;
-      });
-      csvRows.push(row.join(','));
+    const collection = createPersistentCollection<StoredReport>('generatedReports', {
+      adapter,
+      maxBytes,
+      maxEntries,
+      sync,
+      onEvict: keys => persistenceRef.current?.onEvict?.(keys),
+      onError: error => persistenceRef.current?.onError?.(error)
     });
-    
-    return csvRows.join('\n');
-  }, []);
-
-  /**
-   * Generate HTML report with styling
-   */
-  const generateHTML = useCallback((data: ReportData, options: ReportOptions): string => {
-    const styling = { ...DEFAULT_STYLING, ...options.styling };
-    const metadata = options.metadata;
-    
-    const css = `
-      body {
-        font-family: ${styling.fontFamily};
-        font-size: ${styling.fontSize};
-        line-height: 1.6;
-        color: ${styling.theme === 'dark' ? '#e5e7eb' : '#374151'};
-        background-color: ${styling.theme === 'dark' ? '#1f2937' : '#ffffff'};
-        margin: 0;
-        padding: 20px;
-      }
-      
-      .report-container {
-        max-width: 1200px;
-        margin: 0 auto;
-        background: ${styling.theme === 'dark' ? '#374151' : '#f9fafb'};
-        border-radius: 8px;
-        padding: 30px;
-        box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-      }
-      
-      .report-header {
-        border-bottom: 3px solid ${styling.primaryColor};
-        padding-bottom: 20px;
-        margin-bottom: 30px;
-      }
-      
-      .report-title {
-        color: ${styling.primaryColor};
-        font-size: 2.5em;
-        margin: 0 0 10px 0;
-        font-weight: bold;
-      }
-      
-      .report-meta {
-        color: ${styling.theme === 'dark' ? '#9ca3af' : '#6b7280'};
-        font-size: 0.9em;
-      }
-      
-      .data-section {
-        margin: 20px 0;
-      }
-      
-      .data-table {
-        width: 100%;
-        border-collapse: collapse;
-        margin: 20px 0;
-      }
-      
-      .data-table th,
-      .data-table td {
-        border: 1px solid ${styling.theme === 'dark' ? '#4b5563' : '#d1d5db'};
-        padding: 12px;
-        text-align: left;
-      }
-      
-      .data-table th {
-        background-color: ${styling.primaryColor};
-        color: white;
-        font-weight: bold;
-      }
-      
-      .data-table tr:nth-child(even) {
-        background-color: ${styling.theme === 'dark' ? '#4b5563' : '#f3f4f6'};
-      }
-      
-      .json-container {
-        background-color: ${styling.theme === 'dark' ? '#1f2937' : '#f8f9fa'};
-        border: 1px solid ${styling.theme === 'dark' ? '#4b5563' : '#e5e7eb'};
-        border-radius: 4px;
-        padding: 15px;
-        overflow-x: auto;
+    collectionRef.current = collection;
+    let active = true;
+
+    const unsubscribe = collection.subscribe((change: CollectionChange<StoredReport>) => {
+      if (change.type === 'put') {
+        const report = restoreReport(change.record.value);
+        setGeneratedReports(prev => [...prev.filter(existing => existing.id !== report.id), report]);
+      } else if (change.type === 'delete') {
+        removeReports(change.keys);
+      } else if (change.type === 'clear') {
+        setGeneratedReports(prev => {
+          prev.forEach(report => URL.revokeObjectURL(report.downloadUrl));
+          return [];
+        });
       }
-      
-      .json-content {
-        font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
-        font-size: 0.9em;
-        white-space: pre-wrap;
-        margin: 0;
+    });
+
+    collection.load().then(reports => {
+      if (!active) {
+        return;
       }
-      
-      ${styling.customCSS || ''}
-    `;
-
-    const renderDataAsTable = (data: any): string => {
-      if (Array.isArray(data) && data.length > 0 && typeof data[0] === 'object') {
-        const keys = Object.keys(data[0]);
-        const headerRow = keys.map(key => `<th>${key}</th>`).join('');
-        const dataRows = data.map(item => 
-          `<tr>${keys.map(key => `<td>${item[key] || ''}</td>`).join('')}</tr>`
-        ).join('');
-        
-        return `
-          <table class="data-table">
-            <thead><tr>${headerRow}</tr></thead>
-            <tbody>${dataRows}</tbody>
-          </table>
-        `;
+      setGeneratedReports(prev => {
+        const currentIds = new Set(prev.map(report => report.id));
+        return [...reports.filter(report => !currentIds.has(report.id)).map(restoreReport), ...prev];
+      });
+      setIsRestoring(false);
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+      collection.close();
+      if (collectionRef.current === collection) {
+        collectionRef.current = null;
       }
-      
-      return `
-        <div class="json-container">
-          <pre class="json-content">${JSON.stringify(data, null, 2)}</pre>
-        </div>
-      `;
     };
-
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>${metadata?.title || 'Report'}</title>
-        <style>${css}</style>
-      </head>
-      <body>
-        <div class="report-container">
-          <div class="report-header">
-            <h1 class="report-title">${metadata?.title || 'Report'}</h1>
-            <div class="report-meta">
-              ${metadata?.description ? `<p>${metadata.description}</p>` : ''}
-              <p>Generated on: ${new Date().toLocaleString()}</p>
-              ${metadata?.author ? `<p>Author: ${metadata.author}</p>` : ''}
-              ${metadata?.version ? `<p>Version: ${metadata.version}</p>` : ''}
-            </div>
-          </div>
-          
-          <div class="data-section">
-            ${renderDataAsTable(data)}
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-  }, []);
+  }, [adapter, maxBytes, maxEntries, sync, removeReports]);
 
   /**
-   * Generate plain text report
+   * Generate filename with timestamp if needed
    */
-  const generateText = useCallback((data: ReportData, options: ReportOptions): string => {
-    const metadata = options.metadata;
-    let content = '';
-    
-    if (metadata?.title) {
-      content += `${metadata.title}\n`;
-      content += '='.repeat(metadata.title.length) + '\n\n';
-    }
-    
-    if (metadata?.description) {
-      content += `${metadata.description}\n\n`;
-    }
-    
-    content += `Generated on: ${new Date().toLocaleString()}\n`;
-    if (metadata?.author) {
-      content += `Author: ${metadata.author}\n`;
-    }
-    content += '\n';
+  const generateFilename = useCallback((options: Omit<ReportOptions, 'format'>, extension: string): string => {
+    let filename = options.filename || 'report';
     
-    // Convert data to readable text format
-    if (Array.isArray(data)) {
-      data.forEach((item, index) => {
-        content += `Record ${index + 1}:\n`;
-        Object.entries(item).forEach(([key, value]) => {
-          content += `  ${key}: ${value}\n`;
-        });
-        content += '\n';
-      });
-    } else {
-      content += JSON.stringify(data, null, 2);
+    if (options.includeTimestamp !== false) {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+      filename = `${filename}_${timestamp}`;
     }
     
-    return content;
+    return `${filename}.${extension}`;
   }, []);
 
   /**
@@ -338,11 +279,40 @@ export const useReportGenerator = () => {
     return url;
   }, []);
 
+  /**
+   * Download a finished report and add it to the generated reports list
+   */
+  const publishReport = useCallback((
+    blob: Blob,
+    filename: string,
+    format: GeneratedReportFormat,
+    compression?: { type: 'gzip' | 'zip'; uncompressedSize: number }
+  ): GeneratedReport => {
+    const storedReport: StoredReport = {
+      id: createRecordId('report'),
+      blob,
+      filename,
+      size: blob.size,
+      format,
+      compression: compression?.type,
+      uncompressedSize: compression?.uncompressedSize
+    };
+
+    const generatedReport: GeneratedReport = { ...storedReport, downloadUrl: downloadBlob(blob, filename) };
+
+    setGeneratedReports(prev => [...prev, generatedReport]);
+
+    // Eviction only limits what is stored; the report stays in the list until cleared
+    void collectionRef.current?.save(storedReport.id, storedReport);
+
+    return generatedReport;
+  }, [downloadBlob]);
+
   /**
    * Generate report in specified format
    */
   const generateReport = useCallback(async (
-    data: ReportData | ReportData[],
+    data: ReportData | ReportData[] | ReportSheets,
     options: ReportOptions
   ): Promise<GeneratedReport | null> => {
     setIsGenerating(true);
@@ -350,65 +320,76 @@ export const useReportGenerator = () => {
     setError(null);
 
     try {
-      let content: string;
-      let mimeType: string;
-
       setProgress(25);
 
-      // Generate content based on format
-      switch (options.format) {
-        case 'json':
-          content = generateJSON(data as ReportData, options);
-          mimeType = 'application/json';
-          break;
-          
-        case 'csv':
-          content = generateCSV(data as ReportData[], options);
-          mimeType = 'text/csv';
-          break;
-          
-        case 'html':
-          content = generateHTML(data as ReportData, options);
-          mimeType = 'text/html';
-          break;
-          
-        case 'txt':
-          content = generateText(data as ReportData, options);
-          mimeType = 'text/plain';
-          break;
-          
-        default:
-          throw new Error(`Unsupported format: ${options.format}`);
-      }
-
-      setProgress(75);
+      // Render (and gzip) the content off the main thread when a worker is available
+      const { blob, uncompressedSize } = await getTaskRunner().run(
+        { type: 'renderReport', data, options },
+        { onProgress: setProgress }
+      );
 
-      // Create blob
-      const blob = new Blob([content], { type: mimeType });
-      const filename = generateFilename(options);
-      
       setProgress(90);
 
-      // Create download URL
-      const downloadUrl = downloadBlob(blob, filename);
+      const filename = generateFilename(options, options.format);
+      const generatedReport = options.compression
+        ? publishReport(blob, `${filename}.gz`, options.format, { type: 'gzip', uncompressedSize })
+        : publishReport(blob, filename, options.format);
 
-      const generatedReport: GeneratedReport = {
-        blob,
-        filename,
-        size: blob.size,
-        format: options.format,
-        downloadUrl
+      setProgress(100);
+
+      return generatedReport;
+
+    } catch (error) {
+      const reportError: ReportGeneratorError = {
+        code: 'GENERATION_ERROR',
+        message: error instanceof Error ? error.message : 'Report generation failed',
+        details: error
       };
+      setError(reportError);
+      return null;
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [getTaskRunner, generateFilename, publishReport]);
+
+  /**
+   * Bundle several formats of the same data into one compressed zip archive
+   */
+  const generateReportArchive = useCallback(async (
+    data: ReportData | ReportData[] | ReportSheets,
+    formats: ReportFormat[],
+    baseOptions: Omit<ReportOptions, 'format'>
+  ): Promise<GeneratedReport | null> => {
+    setIsGenerating(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const entries = formats.map(format => {
+        const options: ReportOptions = { ...baseOptions, format, compression: false };
+        return { filename: generateFilename({ ...options, includeTimestamp: false }, format), options };
+      });
+
+      const { blob, uncompressedSize } = await getTaskRunner().run(
+        { type: 'renderArchive', data, entries },
+        { onProgress: setProgress }
+      );
+
+      const generatedReport = publishReport(
+        blob,
+        generateFilename(baseOptions, 'zip'),
+        'zip',
+        { type: 'zip', uncompressedSize }
+      );
 
       setProgress(100);
-      setGeneratedReports(prev => [...prev, generatedReport]);
 
       return generatedReport;
 
     } catch (error) {
       const reportError: ReportGeneratorError = {
         code: 'GENERATION_ERROR',
-        message: error instanceof Error ? error.message : 'Report generation failed',
+        message: error instanceof Error ? error.message : 'Report archive generation failed',
         details: error
       };
       setError(reportError);
@@ -416,16 +397,69 @@ export const useReportGenerator = () => {
     } finally {
       setIsGenerating(false);
     }
-  }, [generateJSON, generateCSV, generateHTML, generateText, generateFilename, downloadBlob]);
+  }, [getTaskRunner, generateFilename, publishReport]);
+
+  /**
+   * Stream a large dataset into a report row batch by row batch, so the
+   * complete data and rendered text never have to be held in memory at once
+   */
+  const streamReport = useCallback(async (
+    source: ReportSource,
+    options: StreamReportOptions
+  ): Promise<GeneratedReport | null> => {
+    setIsGenerating(true);
+    setProgress(0);
+    setRowsProcessed(0);
+    setError(null);
+
+    try {
+      const { blob, uncompressedSize } = await streamReportToBlob(source, {
+        ...options,
+        onProgress: (rows, totalRows) => {
+          setRowsProcessed(rows);
+          if (totalRows) {
+            setProgress(Math.min(99, (rows / totalRows) * 100));
+          }
+          options.onProgress?.(rows, totalRows);
+        }
+      });
+
+      const filename = generateFilename(options, options.format);
+      const generatedReport = options.compression
+        ? publishReport(blob, `${filename}.gz`, options.format, { type: 'gzip', uncompressedSize })
+        : publishReport(blob, filename, options.format);
+
+      setProgress(100);
+
+      return generatedReport;
+
+    } catch (error) {
+      const reportError: ReportGeneratorError = {
+        code: options.signal?.aborted ? 'ABORTED' : 'GENERATION_ERROR',
+        message: error instanceof Error ? error.message : 'Streamed report generation failed',
+        details: error
+      };
+      setError(reportError);
+      return null;
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [generateFilename, publishReport]);
 
   /**
    * Generate multiple reports in different formats
    */
   const generateMultipleReports = useCallback(async (
-    data: ReportData | ReportData[],
+    data: ReportData | ReportData[] | ReportSheets,
     formats: ReportFormat[],
     baseOptions: Omit<ReportOptions, 'format'>
   ): Promise<GeneratedReport[]> => {
+    // Compressed multi-format exports are delivered as a single zip archive
+    if (baseOptions.compression && formats.length > 1) {
+      const archive = await generateReportArchive(data, formats, baseOptions);
+      return archive ? [archive] : [];
+    }
+
     const reports: GeneratedReport[] = [];
     
     for (let i = 0; i < formats.length; i++) {
@@ -443,7 +477,7 @@ export const useReportGenerator = () => {
     }
     
     return reports;
-  }, [generateReport]);
+  }, [generateReport, generateReportArchive]);
 
   /**
    * Clear generated reports and free memory
@@ -457,6 +491,8 @@ export const useReportGenerator = () => {
     setGeneratedReports([]);
     setError(null);
     setProgress(0);
+    setRowsProcessed(0);
+    void collectionRef.current?.clear();
   }, [generatedReports]);
 
   /**
@@ -467,7 +503,7 @@ export const useReportGenerator = () => {
     const formatCounts = generatedReports.reduce((counts, report) => {
       counts[report.format] = (counts[report.format] || 0) + 1;
       return counts;
-    }, {} as Record<ReportFormat, number>);
+    }, {} as Record<GeneratedReportFormat, number>);
 
     return {
       totalReports: generatedReports.length,
@@ -481,21 +517,29 @@ export const useReportGenerator = () => {
     // State
     isGenerating,
     progress,
+    rowsProcessed,
     error,
     generatedReports,
+    isRestoring,
     
     // Actions
     generateReport,
     generateMultipleReports,
+    streamReport,
     clearReports,
     
     // Utilities
     getReportStats,
+    groupReportData,
+    aggregateRows,
+    createReportStream,
     
     // Individual generators (for advanced use)
     generateJSON,
     generateCSV,
     generateHTML,
-    generateText
+    generateText,
+    generatePDF,
+    generateXLSX
   };
 };
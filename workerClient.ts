@@ -0,0 +1,158 @@
+/**
+ * Worker Task Runner
+ *
+ * Sends worker tasks to a Web Worker created by a caller-supplied factory and
+ * relays progress and results back. Runs tasks on the main thread when
+ * workers are unavailable (SSR, jsdom), when the worker fails to start, or
+ * when a task cannot be cloned into the worker.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { runWorkerTask, TaskContext, WorkerResponse, WorkerTask, WorkerTaskResult } from './workerTasks';
+
+// Types and Interfaces
+export type WorkerFactory = () => Worker;
+
+export interface TaskRunner {
+  run: <T extends WorkerTask>(task: T, context?: TaskContext) => Promise<WorkerTaskResult<T>>;
+  terminate: () => void;
+}
+
+interface PendingTask {
+  task: WorkerTask;
+  context: TaskContext;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+const ABORT_MESSAGE = 'Operation was aborted';
+
+/**
+ * Check whether the environment can start Web Workers
+ */
+export const isWorkerSupported = (): boolean => typeof Worker !== 'undefined';
+
+/**
+ * Create a task runner backed by a lazily started worker. Without a factory
+ * every task runs on the main thread.
+ */
+export const createTaskRunner = (factory?: WorkerFactory): TaskRunner => {
+  let worker: Worker | null = null;
+  let unavailable = !factory || !isWorkerSupported();
+  let nextId = 0;
+  const pending = new Map<number, PendingTask>();
+
+  const runLocally = (entry: PendingTask) => {
+    entry.cleanup();
+    runWorkerTask(entry.task, entry.context).then(entry.resolve, entry.reject);
+  };
+
+  const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const entry = pending.get(response.id);
+    if (!entry) {
+      return;
+    }
+
+    if (response.type === 'progress') {
+      entry.context.onProgress?.(response.progress);
+      return;
+    }
+
+    pending.delete(response.id);
+    entry.cleanup();
+    if (response.type === 'result') {
+      entry.resolve(response.result);
+    } else {
+      entry.reject(new Error(response.message));
+    }
+  };
+
+  // A worker script that fails to load or crashes hands its tasks back to the main thread
+  const handleError = (event: Event) => {
+    event.preventDefault();
+    unavailable = true;
+    worker?.terminate();
+    worker = null;
+
+    const entries = Array.from(pending.values());
+    pending.clear();
+    entries.forEach(runLocally);
+  };
+
+  const getWorker = (): Worker | null => {
+    if (unavailable) {
+      return null;
+    }
+
+    if (!worker) {
+      try {
+        worker = factory!();
+        worker.addEventListener('message', handleMessage);
+        worker.addEventListener('error', handleError);
+      } catch {
+        unavailable = true;
+        return null;
+      }
+    }
+
+    return worker;
+  };
+
+  const run = <T extends WorkerTask>(task: T, context: TaskContext = {}): Promise<WorkerTaskResult<T>> => {
+    const target = getWorker();
+    if (!target) {
+      return runWorkerTask(task, context);
+    }
+
+    if (context.signal?.aborted) {
+      return Promise.reject(new Error(ABORT_MESSAGE));
+    }
+
+    return new Promise<WorkerTaskResult<T>>((resolve, reject) => {
+      const id = ++nextId;
+
+      const onAbort = () => {
+        pending.delete(id);
+        target.postMessage({ id, cancel: true });
+        reject(new Error(ABORT_MESSAGE));
+      };
+
+      const entry: PendingTask = {
+        task,
+        context,
+        resolve,
+        reject,
+        cleanup: () => context.signal?.removeEventListener('abort', onAbort)
+      };
+
+      pending.set(id, entry);
+      context.signal?.addEventListener('abort', onAbort);
+
+      try {
+        target.postMessage({ id, task });
+      } catch {
+        // Tasks carrying functions, such as template formatters, cannot be cloned
+        pending.delete(id);
+        runLocally(entry);
+      }
+    });
+  };
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+
+    const entries = Array.from(pending.values());
+    pending.clear();
+    entries.forEach(entry => {
+      entry.cleanup();
+      entry.reject(new Error('Worker was terminated'));
+    });
+  };
+
+  return { run, terminate };
+};
@@ -0,0 +1,218 @@
+/**
+ * Worker Tasks
+ *
+ * The CPU-heavy work of the file processor and report generator — reading,
+ * counting, hashing and parsing files, rendering and compressing reports —
+ * expressed as serializable tasks. A Web Worker runs them through
+ * registerTaskWorker; without a worker they run on the main thread instead.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { readFileInChunks } from './fileStreamReader';
+import { ContentParseOptions, ParsedContent, ParseFormat, parseContent } from './contentParsers';
+import { analyzeText, TextAnalytics, TextAnalyticsOptions } from './textAnalytics';
+import { compressBytes } from './compression';
+import { createCompressedZipArchive, ZipEntry } from './zip';
+import { renderReportContent } from './reportRenderers';
+import type { ReportSheets } from './xlsxWriter';
+import type { ReportData, ReportOptions } from './useReportGenerator';
+
+// Types and Interfaces
+export interface AnalyzeFileTask {
+  type: 'analyzeFile';
+  file: Blob;
+  encoding?: string;
+  chunkSize?: number;
+  calculateChecksum?: boolean;
+  retainContent?: boolean;
+  parseFormat?: ParseFormat;
+  parseOptions?: ContentParseOptions;
+  analytics?: TextAnalyticsOptions;
+}
+
+export interface AnalyzeFileResult {
+  content: string;
+  characterCount: number;
+  wordCount: number;
+  lineCount: number;
+  checksum?: string;
+  parsed?: ParsedContent;
+  analytics?: TextAnalytics;
+}
+
+export interface RenderReportTask {
+  type: 'renderReport';
+  data: ReportData | ReportData[] | ReportSheets;
+  options: ReportOptions;
+}
+
+export interface RenderArchiveTask {
+  type: 'renderArchive';
+  data: ReportData | ReportData[] | ReportSheets;
+  entries: Array<{ filename: string; options: ReportOptions }>;
+}
+
+export interface RenderedReport {
+  blob: Blob;
+  uncompressedSize: number;
+}
+
+export type WorkerTask = AnalyzeFileTask | RenderReportTask | RenderArchiveTask;
+
+export type WorkerTaskResult<T extends WorkerTask> = T extends AnalyzeFileTask ? AnalyzeFileResult : RenderedReport;
+
+export interface TaskContext {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+export type WorkerRequest =
+  | { id: number; task: WorkerTask }
+  | { id: number; cancel: true };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: AnalyzeFileResult | RenderedReport }
+  | { id: number; type: 'error'; message: string };
+
+// The parts of a dedicated worker's global scope the task handler needs
+export interface WorkerScope {
+  addEventListener: (type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void) => void;
+  postMessage: (message: WorkerResponse) => void;
+}
+
+const ABORT_MESSAGE = 'Operation was aborted';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new Error(ABORT_MESSAGE);
+  }
+};
+
+const toBytes = (content: string | Uint8Array): Uint8Array => {
+  return typeof content === 'string' ? new TextEncoder().encode(content) : content;
+};
+
+/**
+ * Read a file in chunks, counting and hashing as it goes, then parse and analyze it
+ */
+const analyzeFile = async (task: AnalyzeFileTask, context: TaskContext): Promise<AnalyzeFileResult> => {
+  const result = await readFileInChunks(task.file, {
+    chunkSize: task.chunkSize,
+    encoding: task.encoding,
+    calculateChecksum: task.calculateChecksum,
+    // Parsing and analytics need the text even when the caller does not keep it
+    retainContent: task.retainContent !== false || !!task.parseFormat || !!task.analytics,
+    onProgress: context.onProgress,
+    signal: context.signal
+  });
+
+  const parsed = task.parseFormat ? parseContent(result.content, task.parseFormat, task.parseOptions) : undefined;
+  const analytics = task.analytics ? analyzeText(result.content, task.analytics) : undefined;
+
+  return {
+    ...result,
+    content: task.retainContent === false ? '' : result.content,
+    parsed,
+    analytics
+  };
+};
+
+/**
+ * Render one report, gzipping it when compression is requested
+ */
+const renderReport = async (task: RenderReportTask, context: TaskContext): Promise<RenderedReport> => {
+  const { content, mimeType } = renderReportContent(task.data, task.options);
+  context.onProgress?.(75);
+
+  if (!task.options.compression) {
+    const blob = new Blob([content], { type: mimeType });
+    return { blob, uncompressedSize: blob.size };
+  }
+
+  const bytes = toBytes(content);
+  const compressed = await compressBytes(bytes, 'gzip');
+  throwIfAborted(context.signal);
+  context.onProgress?.(90);
+
+  return { blob: new Blob([compressed], { type: 'application/gzip' }), uncompressedSize: bytes.length };
+};
+
+/**
+ * Render the same data in several formats and bundle them into a zip archive
+ */
+const renderArchive = async (task: RenderArchiveTask, context: TaskContext): Promise<RenderedReport> => {
+  const entries: ZipEntry[] = [];
+  let uncompressedSize = 0;
+
+  for (let i = 0; i < task.entries.length; i++) {
+    throwIfAborted(context.signal);
+
+    const { filename, options } = task.entries[i];
+    const bytes = toBytes(renderReportContent(task.data, options).content);
+    entries.push({ name: filename, data: bytes });
+    uncompressedSize += bytes.length;
+
+    context.onProgress?.(((i + 1) / task.entries.length) * 75);
+  }
+
+  const archive = await createCompressedZipArchive(entries);
+  throwIfAborted(context.signal);
+  context.onProgress?.(90);
+
+  return { blob: new Blob([archive], { type: 'application/zip' }), uncompressedSize };
+};
+
+/**
+ * Run a task in the current thread
+ */
+export const runWorkerTask = <T extends WorkerTask>(task: T, context: TaskContext = {}): Promise<WorkerTaskResult<T>> => {
+  switch (task.type) {
+    case 'analyzeFile':
+      return analyzeFile(task, context) as Promise<WorkerTaskResult<T>>;
+
+    case 'renderReport':
+      return renderReport(task, context) as Promise<WorkerTaskResult<T>>;
+
+    case 'renderArchive':
+      return renderArchive(task, context) as Promise<WorkerTaskResult<T>>;
+
+    default:
+      return Promise.reject(new Error(`Unknown worker task: ${(task as WorkerTask).type}`));
+  }
+};
+
+/**
+ * Answer task requests posted to a worker, reporting progress, results and
+ * errors back as messages. Blobs in results are posted by reference.
+ */
+export const registerTaskWorker = (scope: WorkerScope) => {
+  const controllers = new Map<number, AbortController>();
+
+  scope.addEventListener('message', async (event) => {
+    const request = event.data;
+
+    if ('cancel' in request) {
+      controllers.get(request.id)?.abort();
+      return;
+    }
+
+    const { id, task } = request;
+    const controller = new AbortController();
+    controllers.set(id, controller);
+
+    try {
+      const result = await runWorkerTask(task, {
+        signal: controller.signal,
+        onProgress: progress => scope.postMessage({ id, type: 'progress', progress })
+      });
+      scope.postMessage({ id, type: 'result', result });
+    } catch (error) {
+      scope.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : 'Worker task failed' });
+    } finally {
+      controllers.delete(id);
+    }
+  });
+};
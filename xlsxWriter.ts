@@ -0,0 +1,448 @@
+/**
+ * XLSX Writer
+ *
+ * A dependency-free Office Open XML (SpreadsheetML) writer used by
+ * useReportGenerator. Produces typed worksheets where numbers, booleans and
+ * dates keep their native Excel cell types, and supports multi-sheet workbooks.
+ * Declared column types map onto Excel number formats and cell alignment.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { createZipArchive } from './zip';
+import { ColumnAlign, ReportColumns, resolveColumns, ResolvedColumn } from './reportColumns';
+import type { ReportData, ReportMetadata } from './useReportGenerator';
+
+// Types and Interfaces
+export type ReportSheets = Record<string, ReportData[]>;
+
+export interface XLSXWorkbookOptions {
+  metadata?: ReportMetadata;
+  sheetName?: string;
+  sheets?: boolean; // data is a map of sheet name to rows
+  columns?: ReportColumns;
+  locale?: string | string[];
+}
+
+interface Worksheet {
+  name: string;
+  rows: any[][];
+  hasHeader: boolean;
+  columnStyles?: number[]; // style index per column for data cells
+  headerStyles?: number[];
+}
+
+interface CellStyle {
+  numberFormat: number | string; // built-in format id or a custom format code
+  bold?: boolean;
+  align?: ColumnAlign;
+}
+
+interface StyleRegistry {
+  register: (style: CellStyle) => number;
+  toXML: () => string;
+}
+
+// Cell style indexes registered first by createStyleRegistry
+const STYLE_DATE = 1;
+const STYLE_HEADER = 2;
+
+// Built-in number formats
+const FORMAT_DATE = 14;
+const FORMAT_DATETIME = 22;
+
+// Custom number formats are numbered from here
+const FIRST_CUSTOM_FORMAT = 164;
+
+// Excel limits
+const MAX_SHEET_NAME_LENGTH = 31;
+const MAX_COLUMN_WIDTH = 60;
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Characters that are not allowed anywhere in an XML 1.0 document
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\x00-\x08\x0b\x0c\x0e-\x1f\ufffe\uffff]/g;
+
+/**
+ * Escape text for XML, dropping characters XML 1.0 cannot represent
+ */
+const escapeXML = (value: string): string => {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+/**
+ * Collect the cell styles used by a workbook and render them as styles.xml
+ */
+const createStyleRegistry = (): StyleRegistry => {
+  const styles: CellStyle[] = [];
+  const styleIndex = new Map<string, number>();
+  const formatIds = new Map<string, number>();
+
+  const register = (style: CellStyle): number => {
+    const key = JSON.stringify([style.numberFormat, !!style.bold, style.align || '']);
+    let index = styleIndex.get(key);
+
+    if (index === undefined) {
+      if (typeof style.numberFormat === 'string' && !formatIds.has(style.numberFormat)) {
+        formatIds.set(style.numberFormat, FIRST_CUSTOM_FORMAT + formatIds.size);
+      }
+      index = styles.push(style) - 1;
+      styleIndex.set(key, index);
+    }
+
+    return index;
+  };
+
+  const toXML = (): string => {
+    const numFmts = formatIds.size > 0
+      ? `<numFmts count="${formatIds.size}">${Array.from(formatIds, ([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXML(code)}"/>`).join('')}</numFmts>`
+      : '';
+    const cellXfs = styles.map(style => {
+      const numFmtId = typeof style.numberFormat === 'string' ? formatIds.get(style.numberFormat) : style.numberFormat;
+      const attributes = [
+        `numFmtId="${numFmtId}" fontId="${style.bold ? 1 : 0}" fillId="0" borderId="0" xfId="0"`,
+        numFmtId ? 'applyNumberFormat="1"' : '',
+        style.bold ? 'applyFont="1"' : '',
+        style.align ? 'applyAlignment="1"' : ''
+      ].filter(Boolean).join(' ');
+      return style.align ? `<xf ${attributes}><alignment horizontal="${style.align}"/></xf>` : `<xf ${attributes}/>`;
+    }).join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${SPREADSHEET_NS}">${numFmts}
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="${styles.length}">
+${cellXfs}
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+  };
+
+  register({ numberFormat: 0 });
+  register({ numberFormat: FORMAT_DATETIME });
+  register({ numberFormat: 0, bold: true });
+
+  return { register, toXML };
+};
+
+const decimalPattern = (decimals: number, grouping = true): string => {
+  return `${grouping ? '#,##0' : '0'}${decimals > 0 ? `.${'0'.repeat(decimals)}` : ''}`;
+};
+
+/**
+ * Build an Excel number format code for a currency column, placing the symbol as the locale does
+ */
+const currencyFormat = (column: ResolvedColumn, locale?: string | string[]): string => {
+  const formatter = new Intl.NumberFormat(locale, { style: 'currency', currency: column.definition.currency || 'USD' });
+  const decimals = column.definition.decimals ?? formatter.resolvedOptions().maximumFractionDigits;
+  const parts = formatter.formatToParts(1);
+  const symbolIndex = parts.findIndex(part => part.type === 'currency');
+  const symbol = `"${(parts[symbolIndex]?.value || '').replace(/"/g, '')}"`;
+  const separator = parts.some(part => part.type === 'literal') ? ' ' : '';
+  const number = decimalPattern(decimals);
+
+  return symbolIndex < parts.findIndex(part => part.type === 'integer')
+    ? `${symbol}${separator}${number}`
+    : `${number}${separator}${symbol}`;
+};
+
+/**
+ * Map a column's declared type onto an Excel number format
+ */
+const columnNumberFormat = (column: ResolvedColumn, locale?: string | string[]): number | string => {
+  const decimals = column.definition.decimals;
+
+  switch (column.type) {
+    case 'number':
+      return decimals === undefined ? 0 : decimalPattern(decimals);
+    case 'currency':
+      return currencyFormat(column, locale);
+    case 'percent':
+      return `${decimalPattern(decimals ?? 0, false)}%`;
+    case 'date':
+      return FORMAT_DATE;
+    case 'datetime':
+      return FORMAT_DATETIME;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Convert a zero-based column index into a column letter (0 -> A, 26 -> AA)
+ */
+const columnName = (index: number): string => {
+  let name = '';
+  let n = index + 1;
+
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+
+  return name;
+};
+
+/**
+ * Convert a Date into an Excel serial date number (1900 date system, local time)
+ */
+const toExcelDate = (date: Date): number => {
+  return (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+};
+
+const isRecord = (value: any): value is ReportData => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+};
+
+/**
+ * Check whether report data has the shape of a map of sheet name to rows.
+ * A record whose values are all arrays has it too, so callers only use this
+ * to validate data that was declared as sheets.
+ */
+export const isReportSheets = (data: ReportData | ReportData[]): data is ReportSheets => {
+  if (!isRecord(data)) {
+    return false;
+  }
+
+  const values = Object.values(data);
+  return values.length > 0 && values.every(value => Array.isArray(value));
+};
+
+/**
+ * Make a sheet name valid and unique within the workbook
+ */
+const sanitizeSheetName = (name: string, used: Set<string>): string => {
+  const base = (name.replace(/[[\]:*?/\\]/g, ' ').replace(/^'+|'+$/g, '').trim() || 'Sheet')
+    .slice(0, MAX_SHEET_NAME_LENGTH);
+  let candidate = base;
+  let counter = 2;
+
+  while (used.has(candidate.toLowerCase())) {
+    const suffix = ` (${counter++})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Turn a list of records into a header row followed by value rows, following the column schema
+ */
+const recordsToRows = (
+  records: ReportData[],
+  options: XLSXWorkbookOptions,
+  styles: StyleRegistry
+): Omit<Worksheet, 'name'> => {
+  if (records.length > 0 && records.every(isRecord)) {
+    const columns = resolveColumns(records, options.columns, options.locale);
+    const align = (column: ResolvedColumn) => (column.align === 'left' ? undefined : column.align);
+
+    return {
+      rows: [
+        columns.map(column => column.label),
+        // Typed columns keep native values; untyped columns with a formatter export its text
+        ...records.map(record => columns.map(column => {
+          const value = column.getValue(record);
+          return column.format && !column.type ? column.format(value, record) : value;
+        }))
+      ],
+      hasHeader: true,
+      columnStyles: columns.map(column => styles.register({ numberFormat: columnNumberFormat(column, options.locale), align: align(column) })),
+      headerStyles: columns.map(column => styles.register({ numberFormat: 0, bold: true, align: align(column) }))
+    };
+  }
+
+  return {
+    rows: records.map(value => [value]),
+    hasHeader: false
+  };
+};
+
+/**
+ * Build the metadata sheet rows from report metadata
+ */
+const metadataToRows = (metadata: ReportMetadata): any[][] => {
+  const rows: any[][] = [['Field', 'Value'], ['Title', metadata.title]];
+
+  if (metadata.description) rows.push(['Description', metadata.description]);
+  if (metadata.author) rows.push(['Author', metadata.author]);
+  if (metadata.version) rows.push(['Version', metadata.version]);
+  rows.push(['Created At', metadata.createdAt]);
+  if (metadata.tags?.length) rows.push(['Tags', metadata.tags.join(', ')]);
+  rows.push(['Generated At', new Date()]);
+
+  return rows;
+};
+
+/**
+ * Render a single cell with its native Excel type
+ */
+const renderCell = (value: any, reference: string, header: boolean, style?: number): string => {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+
+  if (header) {
+    return `<c r="${reference}" s="${style ?? STYLE_HEADER}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(String(value))}</t></is></c>`;
+  }
+
+  const styleAttribute = style ? ` s="${style}"` : '';
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`;
+  }
+
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}"${styleAttribute} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return `<c r="${reference}" s="${style || STYLE_DATE}"><v>${toExcelDate(value)}</v></c>`;
+  }
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXML(text)}</t></is></c>`;
+};
+
+/**
+ * Estimate a display width for a value, in characters
+ */
+const displayLength = (value: any): number => {
+  if (value === null || value === undefined) return 0;
+  if (value instanceof Date) return 18;
+  if (typeof value === 'object') return JSON.stringify(value).length;
+  return String(value).length;
+};
+
+/**
+ * Render worksheet XML for a set of rows
+ */
+const renderWorksheet = (sheet: Worksheet): string => {
+  const columnCount = sheet.rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const widths: number[] = new Array(columnCount).fill(8);
+
+  const rowsXML = sheet.rows.map((row, rowIndex) => {
+    const header = sheet.hasHeader && rowIndex === 0;
+    const cells = row.map((value, columnIndex) => {
+      widths[columnIndex] = Math.max(widths[columnIndex], Math.min(displayLength(value) + 2, MAX_COLUMN_WIDTH));
+      const style = header ? sheet.headerStyles?.[columnIndex] : sheet.columnStyles?.[columnIndex];
+      return renderCell(value, `${columnName(columnIndex)}${rowIndex + 1}`, header, style);
+    }).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  const cols = columnCount > 0
+    ? `<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  // Keep the header row visible while scrolling
+  const views = sheet.hasHeader && sheet.rows.length > 1
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">${views}${cols}<sheetData>${rowsXML}</sheetData></worksheet>`;
+};
+
+/**
+ * Render the core document properties from report metadata
+ */
+const renderCoreProperties = (metadata?: ReportMetadata): string => {
+  const created = (metadata?.createdAt || new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const fields = [
+    metadata?.title ? `<dc:title>${escapeXML(metadata.title)}</dc:title>` : '',
+    metadata?.description ? `<dc:description>${escapeXML(metadata.description)}</dc:description>` : '',
+    metadata?.author ? `<dc:creator>${escapeXML(metadata.author)}</dc:creator>` : '',
+    metadata?.tags?.length ? `<cp:keywords>${escapeXML(metadata.tags.join(', '))}</cp:keywords>` : '',
+    metadata?.version ? `<cp:version>${escapeXML(metadata.version)}</cp:version>` : '',
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>`
+  ].join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">${fields}</cp:coreProperties>`;
+};
+
+/**
+ * Render report data as an XLSX workbook. Arrays become a single sheet; with
+ * `sheets`, a map of sheet name to rows becomes one sheet per entry. A
+ * "Metadata" sheet is appended when report metadata is provided. The column
+ * schema applies to every sheet.
+ */
+export const generateXLSXWorkbook = (
+  data: ReportData | ReportData[] | ReportSheets,
+  options: XLSXWorkbookOptions = {}
+): Uint8Array => {
+  const usedNames = new Set<string>();
+  const sheets: Worksheet[] = [];
+  const styles = createStyleRegistry();
+
+  if (options.sheets && !isReportSheets(data)) {
+    throw new Error('Sheet data must map sheet names to arrays of records');
+  }
+
+  const source: ReportSheets = options.sheets
+    ? data as ReportSheets
+    : { [options.sheetName || 'Data']: Array.isArray(data) ? data : [data] };
+
+  Object.entries(source).forEach(([name, records]) => {
+    sheets.push({ name: sanitizeSheetName(name, usedNames), ...recordsToRows(records, options, styles) });
+  });
+
+  if (options.metadata) {
+    sheets.push({
+      name: sanitizeSheetName('Metadata', usedNames),
+      rows: metadataToRows(options.metadata),
+      hasHeader: true
+    });
+  }
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets>${
+    sheets.map((sheet, index) => `<sheet name="${escapeXML(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')
+  }</sheets></workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  return createZipArchive([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'docProps/core.xml', data: renderCoreProperties(options.metadata) },
+    { name: 'xl/workbook.xml', data: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+    { name: 'xl/styles.xml', data: styles.toXML() },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: renderWorksheet(sheet) }))
+  ]);
+};
@@ -0,0 +1,232 @@
+/**
+ * Zip Archives
+ *
+ * Minimal ZIP container writer used to package Office Open XML documents and
+ * multi-file report downloads, and a reader for extracting entries from
+ * uploaded Office documents, without any third-party dependency.
+ *
+ * @author LexiQ Team
+ * @license MIT
+ */
+
+import { compressBytes, concatBytes, crc32, decompressBytes } from './compression';
+
+// Types and Interfaces
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+  lastModified?: Date;
+}
+
+export interface ZipDirectoryEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+interface ZipRecord {
+  name: Uint8Array;
+  data: Uint8Array;
+  checksum: number;
+  size: number;
+  method: number;
+  lastModified: Date;
+}
+
+// ZIP record signatures
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// General purpose flag marking file names as UTF-8
+const UTF8_FLAG = 0x0800;
+
+// Compression methods
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Convert a date into MS-DOS time and date fields
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+/**
+ * Write prepared records into a ZIP container
+ */
+const writeArchive = (records: ZipRecord[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  records.forEach(record => {
+    const { name, data, checksum, size, method } = record;
+    const { time, date } = toDosDateTime(record.lastModified);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_FILE_HEADER, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, checksum, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, data);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const directory = concatBytes(centralDirectory);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, records.length, true);
+  end.setUint16(10, records.length, true);
+  end.setUint32(12, directory.length, true);
+  end.setUint32(16, offset, true);
+
+  return concatBytes([...chunks, directory, new Uint8Array(end.buffer)]);
+};
+
+/**
+ * Encode an entry's name and contents as bytes
+ */
+const toRecord = (entry: ZipEntry): ZipRecord => {
+  const encoder = new TextEncoder();
+  const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+
+  return {
+    name: encoder.encode(entry.name),
+    data,
+    checksum: crc32(data),
+    size: data.length,
+    method: METHOD_STORE,
+    lastModified: entry.lastModified || new Date()
+  };
+};
+
+/**
+ * Build an uncompressed (stored) ZIP archive from a list of entries
+ */
+export const createZipArchive = (entries: ZipEntry[]): Uint8Array => {
+  return writeArchive(entries.map(toRecord));
+};
+
+/**
+ * Build a ZIP archive with every entry DEFLATE-compressed. Entries that do not
+ * shrink are stored as-is.
+ */
+export const createCompressedZipArchive = async (entries: ZipEntry[]): Promise<Uint8Array> => {
+  const records: ZipRecord[] = [];
+
+  for (const entry of entries) {
+    const record = toRecord(entry);
+    const compressed = await compressBytes(record.data, 'deflate-raw');
+
+    records.push(compressed.length < record.data.length
+      ? { ...record, data: compressed, method: METHOD_DEFLATE }
+      : record);
+  }
+
+  return writeArchive(records);
+};
+
+/**
+ * List the entries of a ZIP archive from its central directory. ZIP64
+ * archives are not supported.
+ */
+export const listZipEntries = (data: Uint8Array): ZipDirectoryEntry[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end of central directory record sits before an optional trailing comment
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a ZIP archive: end of central directory not found');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipDirectoryEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP archive: invalid central directory');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    entries.push({
+      name: decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      offset: view.getUint32(offset + 42, true)
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+/**
+ * Read and decompress one entry of a ZIP archive
+ */
+export const readZipEntry = async (data: Uint8Array, entry: ZipDirectoryEntry): Promise<Uint8Array> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (entry.offset + 30 > data.length || view.getUint32(entry.offset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP archive: invalid local header for '${entry.name}'`);
+  }
+
+  // The local header's name and extra field lengths may differ from the central directory's
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === METHOD_STORE) {
+    return compressed;
+  }
+  if (entry.method === METHOD_DEFLATE) {
+    return decompressBytes(compressed, 'deflate-raw');
+  }
+
+  throw new Error(`Unsupported ZIP compression method ${entry.method} for '${entry.name}'`);
+};